@@ -0,0 +1,62 @@
+import { Duplex } from "node:stream"
+import zlib from "node:zlib"
+import type { FileUnit } from "elysia/type-system/types"
+
+/**
+ * Content-Encoding values that can be decoded
+ */
+export type ContentEncoding = "gzip" | "deflate" | "br"
+
+/**
+ * Options for decoding compressed request bodies
+ */
+export interface DecompressionOptions {
+  /**
+   * Maximum size of the decoded body.
+   *
+   * * Supports Elysia file unit.
+   * @example "50m"
+   */
+  maxDecodedSize: FileUnit
+  /**
+   * Maximum ratio between decoded and received bytes.
+   *
+   * @default unset
+   * @example 100
+   */
+  maxRatio?: number
+  /**
+   * Accepted Content-Encoding values, others are rejected by `onUnsupportedEncoding`.
+   *
+   * @default ["gzip", "deflate", "br"]
+   */
+  encodings?: ContentEncoding[]
+}
+
+const decoders: Record<ContentEncoding, () => Duplex> = {
+  gzip: () => zlib.createGunzip(),
+  deflate: () => zlib.createInflate(),
+  br: () => zlib.createBrotliDecompress(),
+}
+
+/**
+ * Split a Content-Encoding header into codings, in the order they were applied.
+ *
+ * * `identity` is dropped, `x-gzip` is treated as `gzip`.
+ */
+export const parseContentEncoding = (header: string | null) => {
+  if (!header) return []
+  const codings: string[] = []
+  for (const value of header.split(",")) {
+    const coding = value.trim().toLowerCase()
+    if (!coding || coding === "identity") continue
+    codings.push(coding === "x-gzip" ? "gzip" : coding)
+  }
+  return codings
+}
+
+/**
+ * Create a stream decoding a single coding.
+ */
+export const createDecoder = (encoding: ContentEncoding) =>
+  Duplex.toWeb(decoders[encoding]()) as unknown as TransformStream<Uint8Array, Uint8Array>
@@ -0,0 +1,53 @@
+/**
+ * Name of the header limit that was exceeded
+ */
+export type HeaderLimit = "maxHeaderCount" | "maxHeaderSize" | "maxSingleHeaderSize"
+
+/**
+ * Describes which header limit was exceeded and on which header
+ */
+export interface HeaderViolation {
+  limit: HeaderLimit
+  /**
+   * Header name, set when `limit` is `maxSingleHeaderSize`.
+   */
+  header?: string
+}
+
+export interface HeaderLimits {
+  maxHeaderCount: number
+  maxHeaderSize: number
+  maxSingleHeaderSize: number
+}
+
+/**
+ * Count and measure the request headers.
+ *
+ * * A header is counted as `name: value\r\n`, repeated headers are already combined by the runtime.
+ * @returns The violation and the measured value when a limit is exceeded
+ */
+export const inspectHeaders = (
+  headers: Headers,
+  limits: HeaderLimits,
+): { violation: HeaderViolation; received: number } | undefined => {
+  let count = 0
+  let size = 0
+  for (const [name, value] of headers) {
+    const length = name.length + value.length + 4
+    if (length > limits.maxSingleHeaderSize)
+      return { violation: { limit: "maxSingleHeaderSize", header: name }, received: length }
+    count++
+    size += length
+  }
+  if (count > limits.maxHeaderCount)
+    return { violation: { limit: "maxHeaderCount" }, received: count }
+  if (size > limits.maxHeaderSize) return { violation: { limit: "maxHeaderSize" }, received: size }
+}
+
+/**
+ * Length of the request target (path and query) of a URL.
+ */
+export const getTargetLength = (url: string) => {
+  const start = url.indexOf("/", url.indexOf("//") + 2)
+  return start === -1 ? 1 : url.length - start
+}
@@ -1,12 +1,176 @@
 /** biome-ignore-all lint/complexity/useLiteralKeys: bypass private */
 import Elysia, {
   type Context,
+  type DocumentDecoration,
   type ElysiaCustomStatusResponse,
   ElysiaStatus,
   type LifeCycleType,
 } from "elysia"
 import type { FileUnit } from "elysia/type-system/types"
 import { parseFileUnit } from "elysia/type-system/utils"
+import {
+  type ContentEncoding,
+  createDecoder,
+  type DecompressionOptions,
+  parseContentEncoding,
+} from "./encoding"
+import { getTargetLength, type HeaderLimits, type HeaderViolation, inspectHeaders } from "./headers"
+import { InFlightBudget } from "./inflight"
+import { JsonInspector, type JsonLimitOptions, type JsonViolation } from "./json"
+import {
+  type BodyLimitEvent,
+  type BodyLimitEventType,
+  BodyLimitMetrics,
+  type BodyLimitMetricsOptions,
+} from "./metrics"
+import {
+  getBoundary,
+  MultipartInspector,
+  type MultipartLimitOptions,
+  type MultipartLimits,
+  type MultipartViolation,
+  parseMultipartLimits,
+} from "./multipart"
+import { type BodyProgress, type ProgressThrottle, trackProgress } from "./progress"
+import { MemoryQuotaStore, type QuotaOptions, type QuotaStore, type QuotaUsage } from "./quota"
+import { compileMatcher, matchesRule } from "./rules"
+import {
+  openSpilledFile,
+  removeSpilledFile,
+  type SpillOptions,
+  spillBody,
+  trackSpilledFile,
+} from "./spill"
+
+export type { ContentEncoding, DecompressionOptions } from "./encoding"
+export type { HeaderLimit, HeaderViolation } from "./headers"
+export type { JsonLimit, JsonLimitOptions, JsonViolation } from "./json"
+export {
+  type BodyLimitEvent,
+  type BodyLimitEventType,
+  BodyLimitMetrics,
+  type BodyLimitMetricsOptions,
+} from "./metrics"
+export type { MultipartLimit, MultipartLimitOptions, MultipartViolation } from "./multipart"
+export { type BodyProgress, getBodyProgress, type ProgressThrottle } from "./progress"
+export { MemoryQuotaStore, type QuotaOptions, type QuotaStore, type QuotaUsage } from "./quota"
+export type { SpillOptions } from "./spill"
+export {
+  type WebSocketLimitOptions,
+  type WebSocketLimitReason,
+  type WebSocketLimitViolation,
+  wsLimit,
+} from "./websocket"
+
+/**
+ * Where the violation was detected
+ *
+ * * `content-length`: The Content-Length header is larger than `maxSize`.
+ * * `stream`: The streamed body grew larger than `maxSize`.
+ * * `multipart`: A multipart limit was exceeded, see `multipart`.
+ * * `json`: A JSON structural limit was exceeded, see `json`.
+ * * `length-required`: Content-Length is missing while `strictContentLength` is enabled.
+ * * `decoded-size`: The decoded body grew larger than `decompression.maxDecodedSize`.
+ * * `compression-ratio`: The decoded body grew faster than `decompression.maxRatio`.
+ * * `unsupported-encoding`: The Content-Encoding is not in `decompression.encodings`.
+ * * `timeout`: The body was not received within `bodyTimeout`.
+ * * `transfer-rate`: The body was received slower than `minBytesPerSecond`.
+ * * `quota`: The client sent more than `quota.max` within `quota.window`.
+ * * `headers`: A header limit was exceeded, see `headers`.
+ * * `url-length`: The request target is longer than `maxUrlLength`.
+ * * `response-length`: The response is larger than `maxResponseSize`, known before sending.
+ * * `response-stream`: The streamed response grew larger than `maxResponseSize`.
+ * * `expectation`: `Expect: 100-continue` without Content-Length, or an unsupported `Expect` value.
+ * * `length-mismatch`: The body is longer or shorter than its Content-Length.
+ * * `conflicting-length`: Both Transfer-Encoding and Content-Length are present.
+ * * `media-type`: The Content-Type is not in `allowedContentTypes`.
+ * * `in-flight`: The body does not fit into `maxInFlightBytes` next to the other active requests.
+ * * `forbidden-body`: A request with a method in `forbidBodyFor` carries a body.
+ */
+export type BodyLimitReason =
+  | "content-length"
+  | "stream"
+  | "multipart"
+  | "json"
+  | "length-required"
+  | "decoded-size"
+  | "compression-ratio"
+  | "unsupported-encoding"
+  | "timeout"
+  | "transfer-rate"
+  | "quota"
+  | "headers"
+  | "url-length"
+  | "response-length"
+  | "response-stream"
+  | "expectation"
+  | "length-mismatch"
+  | "conflicting-length"
+  | "media-type"
+  | "in-flight"
+  | "forbidden-body"
+
+/**
+ * Details of a rejected request, passed to `onLimit` and `onLengthRequired`
+ */
+export interface BodyLimitViolation {
+  reason: BodyLimitReason
+  /**
+   * Parsed Content-Length header, `undefined` when missing.
+   */
+  declaredLength?: number
+  /**
+   * Bytes received so far, always `0` for Content-Length checks.
+   *
+   * * For `headers` and `url-length`, the measured count or length instead.
+   * * For `in-flight`, the bytes in flight including this request instead.
+   */
+  received: number
+  /**
+   * Decoded bytes so far, set when the body is decompressed.
+   */
+  decoded?: number
+  /**
+   * Milliseconds spent receiving the body, set for `timeout` and `transfer-rate`.
+   */
+  elapsed?: number
+  /**
+   * Seconds until the client can send again, set for `quota`.
+   */
+  retryAfter?: number
+  /**
+   * The effective maximum size in bytes.
+   *
+   * * For `headers` and `url-length`, the exceeded limit instead.
+   * * For `in-flight`, `maxInFlightBytes` instead.
+   */
+  maxSize: number
+  contentType: string
+  route: string
+  /**
+   * Set when `reason` is `multipart`.
+   */
+  multipart?: MultipartViolation
+  /**
+   * Set when `reason` is `json`.
+   */
+  json?: JsonViolation
+  /**
+   * Set when `reason` is `headers`.
+   */
+  headers?: HeaderViolation
+  /**
+   * The `Expect` header, set when `reason` is `expectation`.
+   */
+  expect?: string
+}
+
+/**
+ * Resolve the maximum body size per request.
+ *
+ * @example (ctx) => (ctx.headers["x-premium"] ? "500m" : "1m")
+ */
+export type MaxSizeResolver = (ctx: Context) => FileUnit | Promise<FileUnit>
 
 /**
  * Options for configuring body size limits in Elysia
@@ -16,9 +180,31 @@ export interface ElysiaBodyLimitOptions {
    * Maximum size for the content body in bytes.
    *
    * * Supports Elysia file unit.
-   * @example 2 * 1024 (2MB), "10m" (10MB)
+   * * Supports a resolver function called for every checked request.
+   * @example 2 * 1024 (2MB), "10m" (10MB), (ctx) => (ctx.headers["x-premium"] ? "500m" : "1m")
+   */
+  maxSize: FileUnit | MaxSizeResolver
+  /**
+   * Maximum size per content type, `maxSize` is used when nothing matches.
+   *
+   * * Supports Elysia file unit.
+   * * Keys are matched against the type/subtype part, e.g. `"image/*"` or `"*\/*"`.
+   * * Exact matches take precedence over wildcards.
+   *
+   * @default unset
+   * @example { "application/json": "64k", "multipart/form-data": "100m", "image/*": "10m" }
+   */
+  limits?: Record<string, FileUnit>
+  /**
+   * Options per method and path, merged over the plugin-wide options.
+   *
+   * * Evaluated in order for every request, the first matching rule wins.
+   * * Routes with the `bodyLimit` route option ignore the rules.
+   *
+   * @default unset
+   * @example [{ method: "POST", path: "/api/upload/*", maxSize: "100m" }, { method: "DELETE", strictContentLength: true }]
    */
-  maxSize: FileUnit
+  rules?: BodyLimitRule[]
   /**
    * The effect scope onto the elysia instance.
    *
@@ -28,16 +214,37 @@ export interface ElysiaBodyLimitOptions {
   scope?: LifeCycleType
   /**
    * Whether to validate against Bun's maxRequestBodySize (Default 128MB)
+   *
+   * * Only the Bun adapter has a body limit, other adapters are never validated against.
+   * * `true`: Throws on startup, resolved `maxSize` values are clamped.
+   * * `"warn"`: Logs a warning instead.
+   * * `"clamp"`: Uses Bun's maxRequestBodySize instead.
    * @default true
    */
-  validateBunConfig?: boolean
+  validateBunConfig?: boolean | "warn" | "clamp"
   /**
    * Whether to reject requests when no Content-Length is provided for methods like GET, HEAD, DELETE and OPTIONS.
    *
    * Bun.serve seems to automatically drop the body (RFC 9112) when Transfer-Encoding fails and Content-Length is empty.
+   * Other adapters have their body counted instead.
    * @default false
    */
   strictContentLength?: boolean
+  /**
+   * Whether to reject requests with an `Expect` value other than `100-continue`.
+   *
+   * * `Expect: 100-continue` is always checked before the body is read: oversized Content-Length is rejected by `onLimit`, missing Content-Length by `onExpectationFailed`.
+   * @default false
+   */
+  rejectUnsupportedExpect?: boolean
+  /**
+   * Whether to count the body of Content-Length requests and reject bodies that do not match it.
+   *
+   * * Requests with both Transfer-Encoding and Content-Length are rejected as well (request smuggling).
+   * * Requests with Content-Length are streamed as well when enabled.
+   * @default false
+   */
+  verifyContentLength?: boolean
   /**
    * Whether to detect body data (works with `Transfer-Encoding`, failed matches as well)
    *
@@ -65,6 +272,205 @@ export interface ElysiaBodyLimitOptions {
    * @example ["application/form-data"]
    */
   bodyCheckWhitelist?: string[]
+  /**
+   * Content types a request body may have, others are rejected by `onUnsupportedMediaType`.
+   *
+   * * Independent of `bodyCheckBlacklist` and `bodyCheckWhitelist`.
+   * * Supports `"type/*"` and `"*\/*"` wildcards, matched like `limits`.
+   * * Bodies without Content-Type never match, not even `"*\/*"`.
+   * * Content-Type after `;` will be ignored, matching is case-insensitive.
+   *
+   * @default unset (Allow all content types)
+   * @example ["application/json", "image/*"]
+   */
+  allowedContentTypes?: string[]
+  /**
+   * Inspect `multipart/form-data` bodies part by part.
+   *
+   * * Requests with Content-Length are streamed as well when enabled.
+   * * `onLimit` receives the exceeded limit and the field name with `violation.multipart`.
+   *
+   * @default unset
+   * @example { maxFileSize: "10m", maxFieldSize: "64k", maxFiles: 5, maxParts: 100 }
+   */
+  multipart?: MultipartLimitOptions
+  /**
+   * Inspect the structure of `application/json` bodies before they are parsed.
+   *
+   * * Requests with Content-Length are streamed as well when enabled.
+   * * `onLimit` receives the exceeded limit with `violation.json`.
+   *
+   * @default unset
+   * @example { maxDepth: 32, maxKeys: 1000, maxArrayLength: 10000, maxStringLength: 65536 }
+   */
+  json?: JsonLimitOptions
+  /**
+   * Decode `gzip`, `deflate` and `br` request bodies while enforcing decoded limits.
+   *
+   * * `maxSize` still applies to the received (encoded) bytes.
+   * * Requests with Content-Length are streamed as well when encoded.
+   * * Content-Encoding and Content-Length headers are removed from the decoded request.
+   *
+   * @default unset
+   * @example { maxDecodedSize: "50m", maxRatio: 100, encodings: ["gzip", "br"] }
+   */
+  decompression?: DecompressionOptions
+  /**
+   * Maximum time in milliseconds to receive the whole body.
+   *
+   * * Requests with Content-Length are streamed as well when set.
+   * @default unset
+   * @example 30_000
+   */
+  bodyTimeout?: number
+  /**
+   * Minimum average transfer rate in bytes per second, checked after the first second.
+   *
+   * * Requests with Content-Length are streamed as well when set.
+   * @default unset
+   * @example 1024
+   */
+  minBytesPerSecond?: number
+  /**
+   * Limit the total bytes each client can send within a sliding window.
+   *
+   * * Content-Length is counted upfront, streamed bodies are counted as they arrive.
+   * * Rejected requests are counted as well.
+   *
+   * @default unset
+   * @example { max: "100m", window: 60_000 }
+   */
+  quota?: QuotaOptions
+  /**
+   * Maximum bytes of all request bodies in flight at once, shared by the plugin and its routes.
+   *
+   * * Content-Length is reserved upfront, streamed bodies are reserved as they arrive.
+   * * Released once the body is consumed, or when the request ends.
+   * * New bodies are rejected by `onInFlightLimit` while the budget is exhausted.
+   *
+   * @default unset
+   * @example "1g"
+   */
+  maxInFlightBytes?: FileUnit
+  /**
+   * Maximum amount of request headers.
+   *
+   * * Header limits are checked before the body, on every request including bodyless ones.
+   * * Header limits are plugin-wide and can not be overridden per route.
+   * @default unset
+   * @example 100
+   */
+  maxHeaderCount?: number
+  /**
+   * Maximum total size of the request headers, each counted as `name: value\r\n`.
+   *
+   * * Supports Elysia file unit.
+   * @default unset
+   * @example "16k"
+   */
+  maxHeaderSize?: FileUnit
+  /**
+   * Maximum size of a single request header, counted as `name: value\r\n`.
+   *
+   * * Supports Elysia file unit.
+   * @default unset
+   * @example "8k"
+   */
+  maxSingleHeaderSize?: FileUnit
+  /**
+   * Maximum length of the request target (path and query).
+   *
+   * @default unset
+   * @example 2048
+   */
+  maxUrlLength?: number
+  /**
+   * Methods that must not carry a body, checked on every request.
+   *
+   * * A body, a non-zero Content-Length or any Transfer-Encoding is rejected by `onForbiddenBody`.
+   * * Plugin-wide like the header limits, `[]` disables the check.
+   * @default ["GET", "HEAD", "OPTIONS", "TRACE"]
+   * @example ["GET", "HEAD", "DELETE"]
+   */
+  forbidBodyFor?: string[]
+  /**
+   * Maximum size of outgoing response bodies.
+   *
+   * * Sized values (strings, buffers, blobs, JSON, responses with Content-Length) are checked before sending.
+   * * Streamed responses and generators are counted as they are sent.
+   *
+   * @default unset
+   * @example "50m"
+   */
+  maxResponseSize?: FileUnit
+  /**
+   * Write bodies larger than `threshold` to a temporary file after they passed every check.
+   *
+   * * The handler receives a `Bun.file` as `body` instead of the parsed body.
+   * * Requests without Content-Length are buffered in memory up to `threshold` first.
+   * * The file is removed after the response, or when a limit is exceeded partway.
+   *
+   * @default unset
+   * @example { threshold: "10m", directory: "/var/tmp/uploads" }
+   */
+  spill?: SpillOptions
+  /**
+   * Called for every body limit decision.
+   *
+   * @example
+   * ```ts
+   * (event) => {
+   *    console.log(event.type, event.route, event.size)
+   * }
+   * ```
+   */
+  onMetric?: (event: BodyLimitEvent) => void
+  /**
+   * Called as a streamed body arrives, and once it is complete.
+   *
+   * * Every body is streamed when set, read the latest progress in handlers with `getBodyProgress(ctx)`.
+   * * Not called for rejected chunks.
+   *
+   * @example
+   * ```ts
+   * (ctx, { received, total }) => {
+   *    console.log(ctx.path, total ? `${received} / ${total}` : received)
+   * }
+   * ```
+   */
+  onProgress?: (ctx: Context, progress: BodyProgress) => void
+  /**
+   * How often `onProgress` is called.
+   *
+   * @default unset (Every chunk)
+   * @example { bytes: "64k", interval: 250 }
+   */
+  progressThrottle?: ProgressThrottle
+  /**
+   * Collect built-in metrics and mount a Prometheus endpoint.
+   *
+   * * Counts events per route and records accepted body sizes in a histogram per route.
+   * * Plugin-wide, routes and rules report into the same metrics.
+   *
+   * @default false
+   * @example true, { path: "/internal/metrics" }
+   */
+  metrics?: boolean | BodyLimitMetricsOptions
+  /**
+   * Whether violations are rejected.
+   *
+   * * `"enforce"`: Violations are passed to their handler.
+   * * `"report"`: Violations are only passed to `onReport` and flagged with the `X-Body-Limit-Would-Reject` response header, useful for measuring the impact of new limits.
+   * @default "enforce"
+   */
+  mode?: "enforce" | "report"
+  /**
+   * Whether the default handlers respond with an RFC 9457 `application/problem+json` body.
+   *
+   * * Built from the `BodyLimitViolation`.
+   * @default false
+   */
+  problemDetails?: boolean
   /**
    * The handler when strictContentLength is triggered.
    *
@@ -72,14 +478,47 @@ export interface ElysiaBodyLimitOptions {
    *
    * @example
    * ```ts
-   * (ctx) => {
+   * (ctx, violation) => {
    *    return ctx.status(411)
    * }
    * ```
    * @returns Response, ElysiaCustomStatusResponse
    */
+  onLengthRequired?: (
+    ctx: Context,
+    violation: BodyLimitViolation,
+    // biome-ignore lint/suspicious/noExplicitAny: any
+  ) => ElysiaCustomStatusResponse<any, any, any> | Response
+  /**
+   * The handler when an `Expect` header can not be met.
+   *
+   * * Returns HTTP 417 (Expectation Failed) by default.
+   *
+   * @example
+   * ```ts
+   * (ctx, violation) => {
+   *    return ctx.status(417, `Unsupported expectation: ${violation.expect}`)
+   * }
+   * ```
+   * @returns Response, ElysiaCustomStatusResponse
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: any
+  onExpectationFailed?: (ctx: Context, violation: BodyLimitViolation) => any
+  /**
+   * The handler when `verifyContentLength` is triggered.
+   *
+   * * Returns HTTP 400 (Bad Request) by default.
+   *
+   * @example
+   * ```ts
+   * (ctx, violation) => {
+   *    return ctx.status(400, `${violation.received} / ${violation.declaredLength}`)
+   * }
+   * ```
+   * @returns Response, ElysiaCustomStatusResponse
+   */
   // biome-ignore lint/suspicious/noExplicitAny: any
-  onLengthRequired?: (ctx: Context) => ElysiaCustomStatusResponse<any, any, any>
+  onLengthMismatch?: (ctx: Context, violation: BodyLimitViolation) => any
   /**
    * The handler when Body Limit is triggered.
    *
@@ -87,170 +526,1512 @@ export interface ElysiaBodyLimitOptions {
    *
    * @example
    * ```ts
-   * (ctx) => {
-   *    return ctx.status(413)
+   * (ctx, violation) => {
+   *    return ctx.status(413, `${violation.reason}: ${violation.received} / ${violation.maxSize}`)
    * }
    * ```
    * @returns Response, ElysiaCustomStatusResponse
    */
   // biome-ignore lint/suspicious/noExplicitAny: any
-  onLimit?: (ctx: Context) => any
-}
-
-const BUN_MAX_SIZE = 128 * 1024 * 1024 // 128MB
-
-const getDefaultOptions = () => {
-  return {
-    validateBunConfig: true,
-    scope: "local",
-    onLimit: (ctx) => {
-      return ctx.status(413)
-    },
-    onLengthRequired: (ctx) => {
-      return ctx.status(411)
-    },
-  } as const satisfies Omit<ElysiaBodyLimitOptions, "maxSize">
-}
-
-/**
- * Body Limit Plugin for Elysia.
- *
- * @example
- * ```ts
- * import { Elysia } from 'elysia';
- * import { bodyLimit } from 'elysia-body-limit';
- *
- * const app = new Elysia()
- *   .use(bodyLimit({
- *     maxSize: "10m"
- *   }))
- *   .listen(3000);
- * ```
- * @param userOptions
- * @returns plugin
- */
-export function bodyLimit(userOptions: ElysiaBodyLimitOptions) {
-  return (app: Elysia) => {
-    const options = {
-      ...getDefaultOptions(),
-      ...userOptions,
-    }
-
-    // Get Root elysia config
-    const getRootAppCfg = (app: Elysia) => {
-      let current = app
-      while (current["getParent"]) {
-        const parent = current["getParent"]()
-        if (!parent) break
-        current = parent
-      }
-      return current.config
-    }
-
-    const blacklist = new Set(options.bodyCheckBlacklist || [])
-    const whitelist = new Set(options.bodyCheckWhitelist || [])
-    const bodyCheck = !!options.bodyCheck
-    const strictContentLength = !!options.strictContentLength
-    const maxSize = parseFileUnit(options.maxSize)
-    const onLengthRequired = options.onLengthRequired
-    const onLimit = options.onLimit
-
-    // Validate Bun settings
-    if (options.validateBunConfig) {
-      const cfg = getRootAppCfg(app)
-      const reqMaxSize = cfg.serve?.maxRequestBodySize ?? BUN_MAX_SIZE
-      if (maxSize > reqMaxSize) {
-        throw new Error(
-          `Your ElysiaBodyLimitOptions.maxSize (${options.maxSize}) is larger than your Bun maxRequestBodySize (${reqMaxSize})!`,
-        )
-      }
-    }
-
-    return (
-      app
-        .onError(({ error, code }) => {
-          // sus, elysia simply throws it?!
-          if (
-            code === "PARSE" &&
-            (error.cause instanceof ElysiaStatus || error.cause instanceof Response)
-          )
-            return error.cause
-        })
-        // Elysia does not throw ElysiaCustomStatusResponse inside parse hooks / parser somehow (Only Parse Error)
-        // Only onParse can throw, so macros aren't viable at this point. (Performance alert)
-        .onParse({ as: options.scope }, (ctx) => {
-          const req = ctx.request
-          const headers = req.headers
-
-          // Elysia pre-parses Content-Type for us.
-          // Normalize content-type without substring/indexOf
-          // RFC 7231: type/subtype; parameters are optional
-          // We only need the type/subtype part.
-          const contentType = ctx.contentType
-
-          // Blacklist: skip checking
-          if (blacklist.has(contentType)) return
-
-          // Whitelist: if whitelist exists and contentType not in it → skip
-          if (whitelist.size > 0 && !whitelist.has(contentType)) return
-
-          // According to Fetch spec, GET/HEAD usually have no body. (But Bun.serve already handles that)
-          // Skip Bodyless requests
-          if (!req.body) return
-
-          const transferEncoding = headers.get("transfer-encoding")
-          const length = headers.get("content-length")
-
-          // Non-chunked requests (Content-Length path)
-          if (!transferEncoding) {
-            // In Bun.serve, body will be dropped (RFC 9112), so !length may never be triggered.
-            // check for null/empty length
-            if (!length) {
-              if (strictContentLength) {
-                const e = onLengthRequired(ctx as Context)
-                if (e) throw e // undefined => pass
-              }
-              // Content beyond length will be dropped by Bun, and return an error
-              // But in debug environments we will be able to pass body without Content-Length
-              return
-            }
-            // auto compare and handles NaN, Header check of the Content-Length
-            if (+length > maxSize) {
-              const e = onLimit(ctx as Context)
-              if (e) throw e // undefined => pass
-            } else {
-              // Continue (Bun.serve automatically handles Malformed content-length and treat as a new request)
-              return
-            }
-          }
-
-          // Chunked requests (Transfer-Encoding present)
-          if (!bodyCheck) return // bodyCheck disabled → skip all checks
-
-          // Pipe the stream for unknow requests (Slow path)
-          let received = 0
-
-          const sizeChecker = new TransformStream(
-            {
-              transform(chunk, controller) {
-                received += chunk.length
-                if (received > maxSize) {
-                  const e = onLimit(ctx as Context) // undefined => pass
-                  if (e) {
-                    controller.error(e)
-                    return
-                  }
-                }
-                controller.enqueue(chunk)
-              },
-            },
-            { highWaterMark: 1024 * 1024 }, // 1MB should be fast enough
-          )
-
-          ctx.request = new Request(req, {
-            body: req.body.pipeThrough(sizeChecker),
-            duplex: "half",
-          })
+  onLimit?: (ctx: Context, violation: BodyLimitViolation) => any
+  /**
+   * The handler when the Content-Encoding is not accepted by `decompression.encodings`.
+   *
+   * * Returns HTTP 415 (Unsupported Media Type) by default.
+   *
+   * @example
+   * ```ts
+   * (ctx, violation) => {
+   *    return ctx.status(415)
+   * }
+   * ```
+   * @returns Response, ElysiaCustomStatusResponse
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: any
+  onUnsupportedEncoding?: (ctx: Context, violation: BodyLimitViolation) => any
+  /**
+   * The handler when the Content-Type is not in `allowedContentTypes`.
+   *
+   * * Returns HTTP 415 (Unsupported Media Type) by default.
+   *
+   * @example
+   * ```ts
+   * (ctx, violation) => {
+   *    return ctx.status(415, `${violation.contentType || "No Content-Type"} is not accepted`)
+   * }
+   * ```
+   * @returns Response, ElysiaCustomStatusResponse
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: any
+  onUnsupportedMediaType?: (ctx: Context, violation: BodyLimitViolation) => any
+  /**
+   * The handler when `bodyTimeout` or `minBytesPerSecond` is triggered.
+   *
+   * * Returns HTTP 408 (Request Timeout) by default.
+   *
+   * @example
+   * ```ts
+   * (ctx, violation) => {
+   *    return ctx.status(408)
+   * }
+   * ```
+   * @returns Response, ElysiaCustomStatusResponse
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: any
+  onTimeout?: (ctx: Context, violation: BodyLimitViolation) => any
+  /**
+   * The handler when `quota` is exceeded.
+   *
+   * * Returns HTTP 429 (Too Many Requests) with `Retry-After` by default.
+   *
+   * @example
+   * ```ts
+   * (ctx, violation) => {
+   *    ctx.set.headers["retry-after"] = `${violation.retryAfter}`
+   *    return ctx.status(429)
+   * }
+   * ```
+   * @returns Response, ElysiaCustomStatusResponse
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: any
+  onQuotaExceeded?: (ctx: Context, violation: BodyLimitViolation) => any
+  /**
+   * The handler when `maxInFlightBytes` is exhausted.
+   *
+   * * Returns HTTP 503 (Service Unavailable) by default.
+   *
+   * @example
+   * ```ts
+   * (ctx, violation) => {
+   *    ctx.set.headers["retry-after"] = "1"
+   *    return ctx.status(503)
+   * }
+   * ```
+   * @returns Response, ElysiaCustomStatusResponse
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: any
+  onInFlightLimit?: (ctx: Context, violation: BodyLimitViolation) => any
+  /**
+   * The handler when a header limit is triggered.
+   *
+   * * Returns HTTP 431 (Request Header Fields Too Large) by default.
+   *
+   * @example
+   * ```ts
+   * (ctx, violation) => {
+   *    return ctx.status(431, `${violation.headers?.limit}: ${violation.received} / ${violation.maxSize}`)
+   * }
+   * ```
+   * @returns Response, ElysiaCustomStatusResponse
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: any
+  onHeaderLimit?: (ctx: Context, violation: BodyLimitViolation) => any
+  /**
+   * The handler when a request with a method in `forbidBodyFor` carries a body.
+   *
+   * * Returns HTTP 400 (Bad Request) by default.
+   *
+   * @example
+   * ```ts
+   * (ctx, violation) => {
+   *    return ctx.status(400, `${ctx.request.method} requests must not have a body`)
+   * }
+   * ```
+   * @returns Response, ElysiaCustomStatusResponse
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: any
+  onForbiddenBody?: (ctx: Context, violation: BodyLimitViolation) => any
+  /**
+   * The handler when `maxUrlLength` is triggered.
+   *
+   * * Returns HTTP 414 (URI Too Long) by default.
+   *
+   * @example
+   * ```ts
+   * (ctx, violation) => {
+   *    return ctx.status(414)
+   * }
+   * ```
+   * @returns Response, ElysiaCustomStatusResponse
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: any
+  onUrlTooLong?: (ctx: Context, violation: BodyLimitViolation) => any
+  /**
+   * The handler when `maxResponseSize` is triggered.
+   *
+   * * Logs and returns HTTP 500 (Internal Server Error) by default.
+   * * Streamed responses are already sent partially, they are aborted instead when a value is returned.
+   *
+   * @example
+   * ```ts
+   * (ctx, violation) => {
+   *    return ctx.status(500)
+   * }
+   * ```
+   * @returns Response, ElysiaCustomStatusResponse
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: any
+  onResponseLimit?: (ctx: Context, violation: BodyLimitViolation) => any
+  /**
+   * Called instead of the handler when `mode` is `"report"`, once per request.
+   *
+   * @example
+   * ```ts
+   * (ctx, violation) => {
+   *    console.warn(`Would reject ${violation.route}: ${violation.reason}`)
+   * }
+   * ```
+   */
+  onReport?: (ctx: Context, violation: BodyLimitViolation) => void
+}
+
+/**
+ * Options that can be overridden per route or rule.
+ */
+export type OverridableBodyLimitOptions = Partial<
+  Omit<
+    ElysiaBodyLimitOptions,
+    | "scope"
+    | "validateBunConfig"
+    | "rules"
+    | "maxInFlightBytes"
+    | "maxHeaderCount"
+    | "maxHeaderSize"
+    | "maxSingleHeaderSize"
+    | "maxUrlLength"
+    | "onHeaderLimit"
+    | "onUrlTooLong"
+    | "forbidBodyFor"
+    | "onForbiddenBody"
+    | "metrics"
+  >
+>
+
+/**
+ * Route-level options for the `bodyLimit` macro.
+ *
+ * * A `FileUnit` or `MaxSizeResolver` only overrides `maxSize`.
+ * * An object is merged over the plugin-wide `ElysiaBodyLimitOptions`.
+ *
+ * @example "50m", { maxSize: "2k", strictContentLength: true }
+ */
+export type RouteBodyLimitOptions = FileUnit | MaxSizeResolver | OverridableBodyLimitOptions
+
+/**
+ * Options for requests matching a method and path, merged over the plugin-wide `ElysiaBodyLimitOptions`.
+ *
+ * @example { method: ["PUT", "PATCH"], path: "/api/upload/*", maxSize: "100m", bodyCheck: true }
+ */
+export interface BodyLimitRule extends OverridableBodyLimitOptions {
+  /**
+   * HTTP methods to match, case-insensitive.
+   *
+   * @default "*" (Any method)
+   * @example "POST", ["PUT", "PATCH"]
+   */
+  method?: string | string[]
+  /**
+   * Request path to match, a glob where `*` matches any characters (including `/`) or a regex.
+   *
+   * @default "*" (Any path)
+   * @example "/api/upload/*", /^\/files\/\d+$/
+   */
+  path?: string | RegExp
+}
+
+const BUN_MAX_SIZE = 128 * 1024 * 1024 // 128MB
+
+// Body limits enforced by the adapters themselves, others have none
+const ADAPTER_MAX_SIZE: Record<string, (app: Elysia) => number> = {
+  bun: (app) => app.config.serve?.maxRequestBodySize ?? BUN_MAX_SIZE,
+}
+
+// Marks parse hooks registered by the `bodyLimit` macro
+const ROUTE_HOOK = Symbol("elysia-body-limit.route")
+
+// Requests already flagged in report mode, keyed by the request context
+const reportedRequests = new WeakSet<object>()
+
+// Report mode: flag the first violation of a request and let it through
+const report = (ctx: Context, checker: BodyLimitChecker, violation: BodyLimitViolation) => {
+  if (reportedRequests.has(ctx)) return
+  reportedRequests.add(ctx)
+  ctx.set.headers["x-body-limit-would-reject"] = violation.reason
+  checker.onReport?.(ctx, violation)
+}
+
+// Interval timers of bodies being read, keyed by the request context
+const bodyTimers = new WeakMap<object, ReturnType<typeof setInterval>>()
+
+// Stop timing a body once the response is sent
+const stopBodyTimer = (ctx: object) => clearInterval(bodyTimers.get(ctx))
+
+const isTimed = (checker: BodyLimitChecker) =>
+  checker.bodyTimeout !== Infinity || checker.minBytesPerSecond > 0
+
+// Keys of the route options. Elysia rejects a lone unknown key, but a typo next to a valid key
+// type checks because macro options are inferred as written, so it is only caught here
+const ROUTE_OPTION_KEYS = new Set(
+  Object.keys({
+    maxSize: true,
+    limits: true,
+    strictContentLength: true,
+    rejectUnsupportedExpect: true,
+    verifyContentLength: true,
+    bodyCheck: true,
+    bodyCheckBlacklist: true,
+    bodyCheckWhitelist: true,
+    allowedContentTypes: true,
+    multipart: true,
+    json: true,
+    decompression: true,
+    bodyTimeout: true,
+    minBytesPerSecond: true,
+    quota: true,
+    maxResponseSize: true,
+    spill: true,
+    onMetric: true,
+    onProgress: true,
+    progressThrottle: true,
+    mode: true,
+    problemDetails: true,
+    onLengthRequired: true,
+    onExpectationFailed: true,
+    onLengthMismatch: true,
+    onLimit: true,
+    onUnsupportedEncoding: true,
+    onUnsupportedMediaType: true,
+    onTimeout: true,
+    onQuotaExceeded: true,
+    onInFlightLimit: true,
+    onResponseLimit: true,
+    onReport: true,
+  } satisfies Record<keyof OverridableBodyLimitOptions, true>),
+)
+
+const VIOLATION_DETAILS: Record<BodyLimitReason, string> = {
+  "content-length": "Content-Length exceeds the maximum body size",
+  stream: "Request body exceeds the maximum body size",
+  multipart: "Multipart body exceeds a part limit",
+  json: "JSON body exceeds a structural limit",
+  "length-required": "Content-Length is required",
+  "decoded-size": "Decoded request body exceeds the maximum decoded size",
+  "compression-ratio": "Decoded request body exceeds the maximum compression ratio",
+  "unsupported-encoding": "Content-Encoding is not supported",
+  timeout: "Request body was not received in time",
+  "transfer-rate": "Request body was received too slowly",
+  quota: "Client exceeded the upload quota",
+  headers: "Request headers exceed a header limit",
+  "url-length": "Request target exceeds the maximum URL length",
+  "response-length": "Response body exceeds the maximum response size",
+  "response-stream": "Streamed response body exceeds the maximum response size",
+  expectation: "Expectation can not be met",
+  "length-mismatch": "Request body does not match its Content-Length",
+  "conflicting-length": "Transfer-Encoding and Content-Length must not be combined",
+  "media-type": "Content-Type is not accepted",
+  "in-flight": "Server is receiving too many request bodies",
+  "forbidden-body": "Request method does not allow a body",
+}
+
+/**
+ * Build an RFC 9457 problem details response from a violation.
+ */
+const createProblemResponse = (
+  status: number,
+  title: string,
+  violation: BodyLimitViolation,
+  headers?: Record<string, string>,
+) => {
+  const { route, ...extensions } = violation
+  return new Response(
+    JSON.stringify({
+      type: "about:blank",
+      title,
+      status,
+      detail: VIOLATION_DETAILS[violation.reason],
+      instance: route,
+      ...extensions,
+    }),
+    { status, headers: { ...headers, "content-type": "application/problem+json" } },
+  )
+}
+
+const getDefaultOptions = (problemDetails?: boolean) => {
+  return {
+    validateBunConfig: true,
+    scope: "local",
+    onLimit: (ctx, violation) => {
+      if (problemDetails) return createProblemResponse(413, "Payload Too Large", violation)
+      return ctx.status(413)
+    },
+    onLengthRequired: (ctx, violation) => {
+      if (problemDetails) return createProblemResponse(411, "Length Required", violation)
+      return ctx.status(411)
+    },
+    onExpectationFailed: (ctx, violation) => {
+      if (problemDetails) return createProblemResponse(417, "Expectation Failed", violation)
+      return ctx.status(417)
+    },
+    onLengthMismatch: (ctx, violation) => {
+      if (problemDetails) return createProblemResponse(400, "Bad Request", violation)
+      return ctx.status(400)
+    },
+    onUnsupportedEncoding: (ctx, violation) => {
+      if (problemDetails) return createProblemResponse(415, "Unsupported Media Type", violation)
+      return ctx.status(415)
+    },
+    onUnsupportedMediaType: (ctx, violation) => {
+      if (problemDetails) return createProblemResponse(415, "Unsupported Media Type", violation)
+      return ctx.status(415)
+    },
+    onTimeout: (ctx, violation) => {
+      if (problemDetails) return createProblemResponse(408, "Request Timeout", violation)
+      return ctx.status(408)
+    },
+    onQuotaExceeded: (ctx, violation) => {
+      const headers = { "retry-after": `${violation.retryAfter}` }
+      if (problemDetails) return createProblemResponse(429, "Too Many Requests", violation, headers)
+      Object.assign(ctx.set.headers, headers)
+      return ctx.status(429)
+    },
+    onInFlightLimit: (ctx, violation) => {
+      if (problemDetails) return createProblemResponse(503, "Service Unavailable", violation)
+      return ctx.status(503)
+    },
+    onHeaderLimit: (ctx, violation) => {
+      if (problemDetails)
+        return createProblemResponse(431, "Request Header Fields Too Large", violation)
+      return ctx.status(431)
+    },
+    onForbiddenBody: (ctx, violation) => {
+      if (problemDetails) return createProblemResponse(400, "Bad Request", violation)
+      return ctx.status(400)
+    },
+    onUrlTooLong: (ctx, violation) => {
+      if (problemDetails) return createProblemResponse(414, "URI Too Long", violation)
+      return ctx.status(414)
+    },
+    onResponseLimit: (ctx, violation) => {
+      console.error(
+        `[elysia-body-limit] Response of ${ctx.request.method} ${violation.route} exceeds maxResponseSize (${violation.received} / ${violation.maxSize} bytes)`,
+      )
+      if (problemDetails) return createProblemResponse(500, "Internal Server Error", violation)
+      return ctx.status(500)
+    },
+  } as const satisfies Omit<ElysiaBodyLimitOptions, "maxSize">
+}
+
+type ResolvedOptions = ElysiaBodyLimitOptions &
+  Required<Pick<ElysiaBodyLimitOptions, keyof ReturnType<typeof getDefaultOptions>>>
+
+// Context available inside parse hooks
+type ParseContext = Context & { contentType: string }
+
+// Context available inside mapResponse hooks
+type ResponseContext = Context & { responseValue: unknown }
+
+/**
+ * Options after parsing, ready to be used inside hooks.
+ */
+interface BodyLimitChecker {
+  blacklist: Set<string>
+  whitelist: Set<string>
+  allowedTypes?: Set<string>
+  bodyCheck: boolean
+  strictContentLength: boolean
+  rejectUnsupportedExpect: boolean
+  verifyContentLength: boolean
+  maxSize: number | MaxSizeResolver
+  limits: Map<string, number>
+  validateBunConfig: NonNullable<ElysiaBodyLimitOptions["validateBunConfig"]>
+  getAdapterMaxSize: () => number
+  // Whether the adapter drops bytes beyond Content-Length, resolved on the first request
+  trustsContentLength: () => boolean
+  // Resolved sizes already warned about
+  warned: Set<number>
+  multipart?: MultipartLimits
+  json?: JsonLimitOptions
+  decompression?: {
+    maxDecodedSize: number
+    maxRatio: number
+    encodings: Set<string>
+  }
+  onLengthRequired: NonNullable<ElysiaBodyLimitOptions["onLengthRequired"]>
+  onLimit: NonNullable<ElysiaBodyLimitOptions["onLimit"]>
+  onExpectationFailed: NonNullable<ElysiaBodyLimitOptions["onExpectationFailed"]>
+  onLengthMismatch: NonNullable<ElysiaBodyLimitOptions["onLengthMismatch"]>
+  bodyTimeout: number
+  minBytesPerSecond: number
+  onUnsupportedEncoding: NonNullable<ElysiaBodyLimitOptions["onUnsupportedEncoding"]>
+  onUnsupportedMediaType: NonNullable<ElysiaBodyLimitOptions["onUnsupportedMediaType"]>
+  onTimeout: NonNullable<ElysiaBodyLimitOptions["onTimeout"]>
+  quota?: {
+    max: number
+    window: number
+    keyGenerator: (ctx: Context) => string | undefined
+    store: QuotaStore
+  }
+  onQuotaExceeded: NonNullable<ElysiaBodyLimitOptions["onQuotaExceeded"]>
+  inFlight?: InFlightBudget
+  onInFlightLimit: NonNullable<ElysiaBodyLimitOptions["onInFlightLimit"]>
+  headers?: HeaderLimits
+  maxUrlLength: number
+  onHeaderLimit: NonNullable<ElysiaBodyLimitOptions["onHeaderLimit"]>
+  onUrlTooLong: NonNullable<ElysiaBodyLimitOptions["onUrlTooLong"]>
+  forbidBody: Set<string>
+  onForbiddenBody: NonNullable<ElysiaBodyLimitOptions["onForbiddenBody"]>
+  maxResponseSize: number
+  onResponseLimit: NonNullable<ElysiaBodyLimitOptions["onResponseLimit"]>
+  spill?: {
+    threshold: number
+    directory?: string
+  }
+  report: boolean
+  onReport?: ElysiaBodyLimitOptions["onReport"]
+  emit?: (event: BodyLimitEvent) => void
+  onProgress?: ElysiaBodyLimitOptions["onProgress"]
+  progressThrottle: {
+    bytes: number
+    interval: number
+  }
+}
+
+const createChecker = (
+  app: Elysia,
+  options: ResolvedOptions,
+  metrics?: BodyLimitMetrics,
+  inFlight?: InFlightBudget,
+): BodyLimitChecker => {
+  const onMetric = options.onMetric
+  let trusted: boolean | undefined
+
+  return {
+    blacklist: new Set(options.bodyCheckBlacklist || []),
+    whitelist: new Set(options.bodyCheckWhitelist || []),
+    allowedTypes:
+      options.allowedContentTypes &&
+      new Set(options.allowedContentTypes.map((type) => type.toLowerCase())),
+    bodyCheck: !!options.bodyCheck,
+    strictContentLength: !!options.strictContentLength,
+    rejectUnsupportedExpect: !!options.rejectUnsupportedExpect,
+    verifyContentLength: !!options.verifyContentLength,
+    maxSize:
+      typeof options.maxSize === "function" ? options.maxSize : parseFileUnit(options.maxSize),
+    limits: new Map(
+      Object.entries(options.limits ?? {}).map(([type, size]) => [type, parseFileUnit(size)]),
+    ),
+    validateBunConfig: options.validateBunConfig,
+    // Resolved on every call, the root app is only known once every plugin is mounted.
+    getAdapterMaxSize: () => {
+      const root = getRootApp(app)
+      return ADAPTER_MAX_SIZE[root["~adapter"].name]?.(root) ?? Infinity
+    },
+    trustsContentLength: () => (trusted ??= getRootApp(app)["~adapter"].name === "bun"),
+    warned: new Set(),
+    multipart: options.multipart && parseMultipartLimits(options.multipart),
+    json: options.json,
+    decompression: options.decompression && {
+      maxDecodedSize: parseFileUnit(options.decompression.maxDecodedSize),
+      maxRatio: options.decompression.maxRatio ?? Infinity,
+      encodings: new Set<string>(
+        options.decompression.encodings ?? (["gzip", "deflate", "br"] satisfies ContentEncoding[]),
+      ),
+    },
+    onLengthRequired: options.onLengthRequired,
+    onLimit: options.onLimit,
+    onExpectationFailed: options.onExpectationFailed,
+    onLengthMismatch: options.onLengthMismatch,
+    bodyTimeout: options.bodyTimeout ?? Infinity,
+    minBytesPerSecond: options.minBytesPerSecond ?? 0,
+    onUnsupportedEncoding: options.onUnsupportedEncoding,
+    onUnsupportedMediaType: options.onUnsupportedMediaType,
+    onTimeout: options.onTimeout,
+    quota: options.quota && {
+      max: parseFileUnit(options.quota.max),
+      window: options.quota.window,
+      keyGenerator: options.quota.keyGenerator ?? getClientIP,
+      // Route options without a store get their own
+      store: options.quota.store ?? new MemoryQuotaStore(),
+    },
+    onQuotaExceeded: options.onQuotaExceeded,
+    inFlight,
+    onInFlightLimit: options.onInFlightLimit,
+    headers:
+      options.maxHeaderCount !== undefined ||
+      options.maxHeaderSize !== undefined ||
+      options.maxSingleHeaderSize !== undefined
+        ? {
+            maxHeaderCount: options.maxHeaderCount ?? Infinity,
+            maxHeaderSize:
+              options.maxHeaderSize === undefined ? Infinity : parseFileUnit(options.maxHeaderSize),
+            maxSingleHeaderSize:
+              options.maxSingleHeaderSize === undefined
+                ? Infinity
+                : parseFileUnit(options.maxSingleHeaderSize),
+          }
+        : undefined,
+    maxUrlLength: options.maxUrlLength ?? Infinity,
+    onHeaderLimit: options.onHeaderLimit,
+    onUrlTooLong: options.onUrlTooLong,
+    forbidBody: new Set(
+      (options.forbidBodyFor ?? ["GET", "HEAD", "OPTIONS", "TRACE"]).map((method) =>
+        method.toUpperCase(),
+      ),
+    ),
+    onForbiddenBody: options.onForbiddenBody,
+    maxResponseSize:
+      options.maxResponseSize === undefined ? Infinity : parseFileUnit(options.maxResponseSize),
+    onResponseLimit: options.onResponseLimit,
+    spill: options.spill && {
+      threshold: parseFileUnit(options.spill.threshold),
+      directory: options.spill.directory,
+    },
+    report: options.mode === "report",
+    onProgress: options.onProgress,
+    // Only the given throttles apply, without any every chunk is reported
+    progressThrottle: options.progressThrottle
+      ? {
+          bytes:
+            options.progressThrottle.bytes === undefined
+              ? Infinity
+              : parseFileUnit(options.progressThrottle.bytes),
+          interval: options.progressThrottle.interval ?? Infinity,
+        }
+      : { bytes: 0, interval: 0 },
+    onReport: options.onReport,
+    emit:
+      onMetric || metrics
+        ? (event) => {
+            metrics?.record(event)
+            onMetric?.(event)
+          }
+        : undefined,
+  }
+}
+
+// Undefined without a server, e.g. under `app.handle`
+const getClientIP = (ctx: Context) => ctx.server?.requestIP(ctx.request)?.address
+
+// Get Root elysia instance
+const getRootApp = (app: Elysia) => {
+  let current = app
+  while (current["getParent"]) {
+    const parent = current["getParent"]()
+    if (!parent) break
+    current = parent
+  }
+  return current
+}
+
+// Validate static sizes on startup, returns the size to use
+const validateSize = (checker: BodyLimitChecker, name: string, size: number) => {
+  const reqMaxSize = checker.getAdapterMaxSize()
+  if (size <= reqMaxSize) return size
+
+  const message = `Your ElysiaBodyLimitOptions.${name} (${size}) is larger than your Bun maxRequestBodySize (${reqMaxSize})!`
+  if (checker.validateBunConfig === "clamp") return reqMaxSize
+  if (checker.validateBunConfig === "warn") {
+    console.warn(message)
+    return size
+  }
+  throw new Error(message)
+}
+
+const assertBunConfig = (checker: BodyLimitChecker) => {
+  if (typeof checker.maxSize === "number")
+    checker.maxSize = validateSize(checker, "maxSize", checker.maxSize)
+  for (const [type, size] of checker.limits) {
+    checker.limits.set(type, validateSize(checker, `limits["${type}"]`, size))
+  }
+}
+
+/**
+ * Describe the effective limits as route detail for the OpenAPI plugin.
+ *
+ * * Extensions are set on the operation, a `requestBody` here would replace the generated one.
+ * * Responses use the default statuses, custom handlers are not inspected.
+ */
+const createDetail = (checker: BodyLimitChecker): DocumentDecoration => {
+  const responses: Record<string, { description: string }> = {}
+  // Report mode never rejects
+  if (!checker.report) {
+    responses[413] = { description: "Payload Too Large" }
+    if (checker.strictContentLength) responses[411] = { description: "Length Required" }
+    if (checker.decompression || checker.allowedTypes)
+      responses[415] = { description: "Unsupported Media Type" }
+    if (checker.bodyTimeout !== Infinity || checker.minBytesPerSecond > 0)
+      responses[408] = { description: "Request Timeout" }
+    if (checker.quota) responses[429] = { description: "Too Many Requests" }
+    if (checker.inFlight) responses[503] = { description: "Service Unavailable" }
+  }
+
+  const extensions: Record<`x-${string}`, unknown> = {}
+  // Resolvers are only known per request
+  if (typeof checker.maxSize === "number") extensions["x-max-body-size"] = checker.maxSize
+  if (checker.limits.size > 0)
+    extensions["x-max-body-size-by-content-type"] = Object.fromEntries(checker.limits)
+
+  return { responses, ...extensions } as DocumentDecoration
+}
+
+// Validate resolved sizes per request, never throws
+const validateResolvedSize = (checker: BodyLimitChecker, size: number) => {
+  if (!checker.validateBunConfig) return size
+  const reqMaxSize = checker.getAdapterMaxSize()
+  if (size <= reqMaxSize) return size
+
+  if (checker.validateBunConfig !== "warn") return reqMaxSize
+  if (!checker.warned.has(size)) {
+    checker.warned.add(size)
+    console.warn(
+      `Your resolved ElysiaBodyLimitOptions.maxSize (${size}) is larger than your Bun maxRequestBodySize (${reqMaxSize})!`,
+    )
+  }
+  return size
+}
+
+// Resolve the limit for a content type: exact, "type/*", "*/*", then maxSize
+const resolveMaxSize = (checker: BodyLimitChecker, contentType: string) => {
+  const limits = checker.limits
+  if (limits.size === 0) return checker.maxSize
+
+  const exact = limits.get(contentType)
+  if (exact !== undefined) return exact
+
+  const slash = contentType.indexOf("/")
+  if (slash !== -1) {
+    const wildcard = limits.get(`${contentType.slice(0, slash)}/*`)
+    if (wildcard !== undefined) return wildcard
+  }
+
+  return limits.get("*/*") ?? checker.maxSize
+}
+
+// Whether a content type is allowed: exact, "type/*", then "*/*"
+const isAllowedType = (checker: BodyLimitChecker, type: string) => {
+  const types = checker.allowedTypes
+  if (!types) return true
+  if (!type) return false
+
+  // Media types are case-insensitive
+  const contentType = type.toLowerCase()
+  if (types.has(contentType)) return true
+
+  const slash = contentType.indexOf("/")
+  if (slash !== -1 && types.has(`${contentType.slice(0, slash)}/*`)) return true
+  return types.has("*/*")
+}
+
+const checkHeaders = (ctx: Context, checker: BodyLimitChecker) => {
+  const req = ctx.request
+
+  let handler = checker.onUrlTooLong
+  let violation: BodyLimitViolation | undefined
+  const createViolation = (
+    reason: BodyLimitReason,
+    received: number,
+    maxSize: number,
+    headers?: HeaderViolation,
+  ): BodyLimitViolation => ({
+    reason,
+    received,
+    maxSize,
+    // Not parsed by Elysia yet
+    contentType: req.headers.get("content-type")?.split(";", 1)[0]?.trim() ?? "",
+    route: ctx.route,
+    headers,
+  })
+
+  const targetLength = getTargetLength(req.url)
+  if (targetLength > checker.maxUrlLength) {
+    violation = createViolation("url-length", targetLength, checker.maxUrlLength)
+  } else if (checker.headers) {
+    const result = inspectHeaders(req.headers, checker.headers)
+    if (result) {
+      handler = checker.onHeaderLimit
+      const { violation: headers, received } = result
+      violation = createViolation("headers", received, checker.headers[headers.limit], headers)
+    }
+  }
+
+  // Bodyless methods allow no body at all, parse hooks do not run for some of them
+  if (!violation && checker.forbidBody.has(req.method)) {
+    const length = req.headers.get("content-length")
+    if (req.headers.has("transfer-encoding") || (length ? +length !== 0 : !!req.body)) {
+      handler = checker.onForbiddenBody
+      violation = createViolation("forbidden-body", 0, 0)
+    }
+  }
+  if (!violation) return
+
+  if (checker.report) return report(ctx, checker, violation)
+
+  const e = handler(ctx, violation) // undefined => pass
+  if (!e) return
+  checker.emit?.({
+    type: "reject",
+    reason: violation.reason,
+    method: req.method,
+    route: ctx.route,
+    contentType: violation.contentType,
+    size: violation.received,
+    maxSize: violation.maxSize,
+  })
+  throw e
+}
+
+// Size of a response value before Elysia maps it, `undefined` when it has to be streamed
+// Generators, streamed by Elysia one yielded value at a time
+const isIterator = (value: unknown): value is Iterator<unknown> | AsyncIterator<unknown> =>
+  typeof (value as Iterator<unknown> | undefined)?.next === "function" &&
+  (Symbol.iterator in (value as object) || Symbol.asyncIterator in (value as object))
+
+const getResponseSize = (value: unknown) => {
+  if (typeof value === "string") return Buffer.byteLength(value)
+  if (value instanceof Blob) return value.size
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) return value.byteLength
+  if (value instanceof Response) {
+    const length = value.headers.get("content-length")
+    if (length) return +length
+    if (!value.body) return 0
+    return
+  }
+  if (value instanceof ReadableStream || isIterator(value)) return
+  // Serialized as JSON by Elysia
+  if (value?.constructor === Object || Array.isArray(value))
+    return Buffer.byteLength(JSON.stringify(value))
+  return 0
+}
+
+const checkResponse = (ctx: ResponseContext, checker: BodyLimitChecker) => {
+  // `status(code, value)` is measured by its value, streams are wrapped again to keep the code
+  const status = ctx.responseValue instanceof ElysiaStatus ? ctx.responseValue : undefined
+  const value: unknown = status ? status.response : ctx.responseValue
+  const keepStatus = (replaced: unknown) =>
+    status ? new ElysiaStatus(status.code, replaced) : replaced
+  const maxSize = checker.maxResponseSize
+
+  const contentType =
+    (value instanceof Response
+      ? value.headers.get("content-type")
+      : ctx.set.headers["content-type"]) ?? ""
+  const createViolation = (reason: BodyLimitReason, received: number): BodyLimitViolation => ({
+    reason,
+    received,
+    maxSize,
+    contentType: contentType.split(";", 1)[0] ?? "",
+    route: ctx.route,
+  })
+
+  // Report mode: flag the response and let it through
+  const handle = (violation: BodyLimitViolation) => {
+    if (checker.report) return report(ctx, checker, violation)
+    const e = checker.onResponseLimit(ctx, violation) // undefined => pass
+    if (e)
+      checker.emit?.({
+        type: "reject",
+        reason: violation.reason,
+        method: ctx.request.method,
+        route: ctx.route,
+        contentType: violation.contentType,
+        size: violation.received,
+        maxSize,
+      })
+    return e
+  }
+
+  const size = getResponseSize(value)
+  if (size !== undefined) {
+    if (size > maxSize) return handle(createViolation("response-length", size))
+    return
+  }
+
+  // Streamed responses, headers are sent already once the limit is hit
+  let received = 0
+  const sizeChecker = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.length
+      if (received > maxSize) {
+        const e = handle(createViolation("response-stream", received))
+        if (e) return controller.error(e) // Truncate and abort
+      }
+      controller.enqueue(chunk)
+    },
+  })
+
+  // Counted per yielded value so Elysia keeps formatting them, the first one is read upfront
+  if (isIterator(value)) {
+    const count = (chunk: unknown) => {
+      received += getResponseSize(chunk) ?? 0
+      if (received > maxSize) return handle(createViolation("response-stream", received))
+    }
+    return (async () => {
+      const first = await value.next()
+      const e = first.done ? undefined : count(first.value)
+      if (e) {
+        await value.return?.()
+        return e
+      }
+      return keepStatus(
+        (async function* () {
+          let next = first
+          while (!next.done) {
+            yield next.value
+            next = await value.next()
+            const e = next.done ? undefined : count(next.value)
+            if (e) {
+              await value.return?.()
+              return // Truncate, Elysia only logs errors thrown mid-stream
+            }
+          }
+          return next.value
+        })(),
+      )
+    })()
+  }
+
+  if (value instanceof Response)
+    return keepStatus(new Response((value.body as ReadableStream).pipeThrough(sizeChecker), value))
+  if (status) return keepStatus((value as ReadableStream).pipeThrough(sizeChecker))
+  return new Response((value as ReadableStream).pipeThrough(sizeChecker))
+}
+
+const checkBody = (ctx: ParseContext, checker: BodyLimitChecker) => {
+  // Elysia pre-parses Content-Type for us.
+  // Normalize content-type without substring/indexOf
+  // RFC 7231: type/subtype; parameters are optional
+  // We only need the type/subtype part.
+  const contentType = ctx.contentType
+
+  // Disallowed types are rejected regardless of the filters
+  if (isAllowedType(checker, contentType)) {
+    // Blacklist: skip checking
+    if (checker.blacklist.has(contentType)) return
+
+    // Whitelist: if whitelist exists and contentType not in it → skip
+    if (checker.whitelist.size > 0 && !checker.whitelist.has(contentType)) return
+  }
+
+  const maxSize = resolveMaxSize(checker, contentType)
+  if (typeof maxSize === "number") return enforceBody(ctx, checker, maxSize)
+
+  const resolved = maxSize(ctx)
+  if (resolved instanceof Promise) {
+    return resolved.then((size) =>
+      enforceBody(ctx, checker, validateResolvedSize(checker, parseFileUnit(size))),
+    )
+  }
+  return enforceBody(ctx, checker, validateResolvedSize(checker, parseFileUnit(resolved)))
+}
+
+const enforceBody = (
+  ctx: ParseContext,
+  checker: BodyLimitChecker,
+  maxSize: number,
+): Promise<unknown> | undefined => {
+  const req = ctx.request
+  const headers = req.headers
+  const contentType = ctx.contentType
+  const { onLimit, onLengthRequired } = checker
+
+  const transferEncoding = headers.get("transfer-encoding")
+  const length = headers.get("content-length")
+
+  const emit = (type: BodyLimitEventType, size: number, reason?: string) =>
+    checker.emit?.({
+      type,
+      reason,
+      method: req.method,
+      route: ctx.route,
+      contentType,
+      size,
+      maxSize,
+    })
+
+  // Whether the request was accepted or rejected
+  let settled = false
+  const accept = (size: number) => {
+    settled = true
+    emit("accept", size)
+  }
+
+  // Call a handler, rejections are reported to metrics
+  const handle = (
+    handler: (ctx: Context, violation: BodyLimitViolation) => unknown,
+    violation: BodyLimitViolation,
+  ) => {
+    if (checker.report) return report(ctx, checker, violation)
+
+    const e = handler(ctx, violation) // undefined => pass
+    if (e) {
+      settled = true
+      const size = violation.received || violation.declaredLength || 0
+      if (violation.reason === "length-required") emit("length-required", size)
+      else emit("reject", size, violation.reason)
+    }
+    return e
+  }
+
+  const createViolation = (
+    reason: BodyLimitReason,
+    received = 0,
+    extra?: Pick<
+      BodyLimitViolation,
+      "decoded" | "elapsed" | "retryAfter" | "multipart" | "json" | "expect"
+    >,
+  ): BodyLimitViolation => ({
+    reason,
+    declaredLength: length ? +length : undefined,
+    received,
+    maxSize,
+    contentType,
+    route: ctx.route,
+    ...extra,
+  })
+
+  // According to Fetch spec, GET/HEAD usually have no body. (But Bun.serve already handles that)
+  // Skip Bodyless requests
+  if (!req.body) return
+
+  // Request smuggling, the length is ambiguous
+  if (checker.verifyContentLength && transferEncoding && length) {
+    const e = handle(checker.onLengthMismatch, createViolation("conflicting-length"))
+    if (e) throw e // undefined => pass
+  }
+
+  if (!isAllowedType(checker, contentType)) {
+    const e = handle(checker.onUnsupportedMediaType, createViolation("media-type"))
+    if (e) throw e // undefined => pass
+  }
+
+  // Decide before the client uploads anything, oversized Content-Length is rejected below
+  const expect = headers.get("expect")
+  if (expect) {
+    const continues = expect.trim().toLowerCase() === "100-continue"
+    if (continues ? !length : checker.rejectUnsupportedExpect) {
+      const e = handle(checker.onExpectationFailed, createViolation("expectation", 0, { expect }))
+      if (e) throw e // undefined => pass
+    }
+  }
+
+  // Multipart bodies are inspected in the stream regardless of Content-Length
+  const boundary =
+    checker.multipart && contentType === "multipart/form-data"
+      ? getBoundary(headers.get("content-type"))
+      : undefined
+
+  // JSON bodies are inspected in the stream regardless of Content-Length
+  const inspectJson = !!checker.json && contentType === "application/json"
+
+  // Encoded bodies are decoded in the stream regardless of Content-Length
+  const decompression = checker.decompression
+  let encodings = decompression ? parseContentEncoding(headers.get("content-encoding")) : []
+  if (decompression && encodings.some((encoding) => !decompression.encodings.has(encoding))) {
+    const e = handle(checker.onUnsupportedEncoding, createViolation("unsupported-encoding"))
+    if (e) throw e // undefined => pass
+    encodings = [] // Leave the body untouched
+  }
+
+  // Verified bodies are counted in the stream
+  const verify = checker.verifyContentLength && !transferEncoding && !!length
+  const declared = verify ? +(length as string) : Infinity
+
+  // Timed bodies are watched in the stream regardless of Content-Length
+  let timed = isTimed(checker)
+
+  let received = 0
+
+  // Charge bytes to the client quota, throws (or rejects with an async store) when exceeded
+  // Requests without a client key are not counted
+  const quotaKey = checker.quota?.keyGenerator(ctx)
+  const quota = quotaKey === undefined ? undefined : checker.quota
+  const charge = (bytes: number): Promise<void> | undefined => {
+    if (!quota || quotaKey === undefined) return
+    const check = ({ total, resetAfter }: QuotaUsage) => {
+      if (total <= quota.max) return
+      const retryAfter = Math.max(1, Math.ceil(resetAfter / 1000))
+      const e = handle(checker.onQuotaExceeded, createViolation("quota", received, { retryAfter }))
+      if (e) throw e // undefined => pass
+    }
+    const usage = quota.store.increment(quotaKey, bytes, quota.window)
+    if (usage instanceof Promise) return usage.then(check)
+    check(usage)
+  }
+  // Declared bodies are charged upfront, others are charged as they stream in
+  let charged: Promise<void> | undefined
+  const chargeStream = !!quota && !(length && +length >= 0)
+
+  // Reserve bytes in the in-flight budget, returns the rejection when exhausted
+  const inFlight = checker.inFlight
+  const reserve = (bytes: number) => {
+    if (!inFlight || inFlight.reserve(ctx, bytes)) return
+    const violation = createViolation("in-flight", inFlight.inFlight + bytes)
+    return handle(checker.onInFlightLimit, { ...violation, maxSize: inFlight.max })
+  }
+  // Declared bodies are reserved upfront, others are reserved as they stream in
+  const reserveStream = !!inFlight && !(length && +length >= 0)
+
+  // Bodies over the threshold (or of unknown length) are read by the plugin
+  const spill = checker.spill && !(length && +length <= checker.spill.threshold) && checker.spill
+
+  // Only Bun.serve drops bytes beyond Content-Length, count the body on other adapters
+  const counted = !checker.trustsContentLength()
+
+  const streamed =
+    !!boundary ||
+    inspectJson ||
+    timed ||
+    verify ||
+    counted ||
+    chargeStream ||
+    reserveStream ||
+    !!checker.onProgress ||
+    encodings.length > 0 ||
+    !!spill
+
+  // Non-chunked requests (Content-Length path)
+  if (!transferEncoding) {
+    // In Bun.serve, body will be dropped (RFC 9112), so !length may never be triggered.
+    // check for null/empty length
+    if (!length) {
+      if (checker.strictContentLength) {
+        const e = handle(onLengthRequired, createViolation("length-required"))
+        if (e) throw e // undefined => pass
+      }
+      // Content beyond length will be dropped by Bun, and return an error
+      // But in debug environments (and other adapters) we will be able to pass body without Content-Length
+      if (!streamed) return
+    } else {
+      // auto compare and handles NaN, Header check of the Content-Length
+      const exceeded = +length > maxSize
+      if (exceeded) {
+        const e = handle(onLimit, createViolation("content-length"))
+        if (e) throw e // undefined => pass
+      }
+      if (!reserveStream) {
+        const e = reserve(+length)
+        if (e) throw e // undefined => pass
+      }
+      if (!chargeStream) charged = charge(+length)
+      // Continue (Bun.serve automatically handles Malformed content-length and treat as a new request)
+      if (!exceeded && !streamed) {
+        if (charged) return charged.then(() => accept(+length))
+        accept(+length)
+        return
+      }
+    }
+  } else {
+    if (!reserveStream) {
+      const e = reserve(+(length as string))
+      if (e) throw e // undefined => pass
+    }
+    if (!chargeStream) charged = charge(+(length as string))
+  }
+
+  // Chunked requests (Transfer-Encoding present)
+  if (!checker.bodyCheck && !streamed) return charged // bodyCheck disabled → skip all checks
+
+  // Pipe the stream for unknow requests (Slow path)
+  let decoded = 0
+  const inspector =
+    boundary && checker.multipart ? new MultipartInspector(boundary, checker.multipart) : undefined
+  const jsonInspector = inspectJson && checker.json ? new JsonInspector(checker.json) : undefined
+
+  const reject = (
+    controller: TransformStreamDefaultController<Uint8Array>,
+    violation: BodyLimitViolation,
+    handler = onLimit,
+  ) => {
+    const e = handle(handler, violation)
+    if (e) controller.error(e)
+    return !!e
+  }
+
+  // Multipart parts and JSON structure are inspected after decoding
+  const inspect = (chunk: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const decodedSize = encodings.length ? decoded : undefined
+    const multipart = inspector?.write(chunk)
+    if (multipart) {
+      const extra = { decoded: decodedSize, multipart }
+      if (reject(controller, createViolation("multipart", received, extra))) return
+    }
+    const json = jsonInspector?.write(chunk)
+    if (json) {
+      const extra = { decoded: decodedSize, json }
+      if (reject(controller, createViolation("json", received, extra))) return
+    }
+    controller.enqueue(chunk)
+  }
+
+  const startedAt = performance.now()
+  let timer: ReturnType<typeof setInterval> | undefined
+  const stopTimer = () => clearInterval(timer)
+
+  // Checks bodyTimeout and minBytesPerSecond, only fires once
+  const checkTime = (controller: TransformStreamDefaultController<Uint8Array>) => {
+    const elapsed = performance.now() - startedAt
+    let reason: BodyLimitReason | undefined
+    if (elapsed > checker.bodyTimeout) reason = "timeout"
+    else if (elapsed >= 1000 && (received * 1000) / elapsed < checker.minBytesPerSecond)
+      reason = "transfer-rate"
+    if (!reason) return false
+
+    stopTimer()
+    timed = false
+    const e = handle(checker.onTimeout, createViolation(reason, received, { elapsed }))
+    if (e) controller.error(e)
+    return !!e
+  }
+
+  const onProgress = checker.onProgress
+  const reportProgress = trackProgress(
+    ctx,
+    { received, total: !transferEncoding && length ? +length : undefined, limit: maxSize },
+    checker.progressThrottle,
+    onProgress && ((progress) => onProgress(ctx, progress)),
+  )
+
+  const sizeChecker = new TransformStream<Uint8Array, Uint8Array>(
+    {
+      start(controller) {
+        req.signal?.addEventListener(
+          "abort",
+          () => {
+            stopTimer()
+            inFlight?.release(ctx)
+            if (!settled) emit("stream-aborted", received)
+          },
+          { once: true },
+        )
+
+        if (!timed) return
+        // A stalled client never sends the next chunk, so check on an interval as well
+        timer = setInterval(() => checkTime(controller), Math.min(1000, checker.bodyTimeout))
+        timer.unref?.()
+        bodyTimers.set(ctx, timer)
+      },
+      transform(chunk, controller) {
+        received += chunk.length
+        if (timed && checkTime(controller)) return
+        if (received > maxSize && reject(controller, createViolation("stream", received))) {
+          stopTimer()
+          return
+        }
+        if (received > declared) {
+          const violation = createViolation("length-mismatch", received)
+          if (reject(controller, violation, checker.onLengthMismatch)) {
+            stopTimer()
+            return
+          }
+        }
+
+        if (reserveStream) {
+          const e = reserve(chunk.length)
+          if (e) {
+            stopTimer()
+            controller.error(e)
+            return
+          }
+        }
+        reportProgress(received)
+
+        const forward = () => {
+          if (encodings.length) controller.enqueue(chunk)
+          else inspect(chunk, controller)
+        }
+        if (!chargeStream) return forward()
+
+        try {
+          const pending = charge(chunk.length)
+          if (!pending) return forward()
+          return pending.then(forward, (e) => {
+            stopTimer()
+            throw e
+          })
+        } catch (e) {
+          stopTimer()
+          controller.error(e)
+        }
+      },
+      flush(controller) {
+        stopTimer()
+        // The body is fully received
+        inFlight?.release(ctx)
+        if (verify && received < declared) {
+          const violation = createViolation("length-mismatch", received)
+          if (reject(controller, violation, checker.onLengthMismatch)) return
+        }
+        reportProgress(received, true)
+        // Decoded bodies are accepted once decoded
+        if (!encodings.length) accept(received)
+      },
+    },
+    { highWaterMark: 1024 * 1024 }, // 1MB should be fast enough
+  )
+
+  let body = req.body.pipeThrough(sizeChecker)
+  let bodyHeaders = headers
+
+  if (decompression && encodings.length) {
+    // Codings are listed in the order they were applied
+    for (const encoding of encodings.toReversed()) {
+      body = body.pipeThrough(createDecoder(encoding as ContentEncoding))
+    }
+
+    body = body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          decoded += chunk.length
+          if (decoded > decompression.maxDecodedSize) {
+            const violation = createViolation("decoded-size", received, { decoded })
+            if (reject(controller, violation)) return
+          } else if (decoded / received > decompression.maxRatio) {
+            const violation = createViolation("compression-ratio", received, { decoded })
+            if (reject(controller, violation)) return
+          }
+          inspect(chunk, controller)
+        },
+        flush() {
+          accept(received)
+        },
+      }),
+    )
+
+    bodyHeaders = new Headers(headers)
+    bodyHeaders.delete("content-encoding")
+    bodyHeaders.delete("content-length")
+  }
+
+  if (spill) {
+    const read = async () => {
+      const result = await spillBody(body, spill.threshold, spill.directory)
+      if ("chunks" in result) {
+        // Small enough to be parsed as usual
+        ctx.request = new Request(req, { body: new Blob(result.chunks), headers: bodyHeaders })
+        return
+      }
+      trackSpilledFile(req, result.path)
+      return openSpilledFile(result.path, bodyHeaders.get("content-type") ?? undefined)
+    }
+    return charged ? charged.then(read) : read()
+  }
+
+  ctx.request = new Request(req, { body, headers: bodyHeaders, duplex: "half" })
+  return charged
+}
+
+/**
+ * Body Limit Plugin for Elysia.
+ *
+ * * Registers a `bodyLimit` route option to override the plugin-wide options per route.
+ *
+ * @example
+ * ```ts
+ * import { Elysia } from 'elysia';
+ * import { bodyLimit } from 'elysia-body-limit';
+ *
+ * const app = new Elysia()
+ *   .use(bodyLimit({
+ *     maxSize: "10m"
+ *   }))
+ *   .post("/upload", ({ body }) => body, { bodyLimit: "50m" })
+ *   .listen(3000);
+ * ```
+ * @param userOptions
+ * @returns plugin
+ */
+export function bodyLimit(userOptions: ElysiaBodyLimitOptions) {
+  return (app: Elysia) => {
+    const options: ResolvedOptions = {
+      ...getDefaultOptions(userOptions.problemDetails),
+      ...userOptions,
+    }
+
+    const metricsOptions = typeof options.metrics === "object" ? options.metrics : {}
+    const metrics = options.metrics ? new BodyLimitMetrics(metricsOptions.buckets) : undefined
+
+    // Routes inheriting the quota share its store
+    if (options.quota && !options.quota.store)
+      options.quota = { ...options.quota, store: new MemoryQuotaStore() }
+
+    // Routes share the in-flight budget of the plugin
+    const inFlight =
+      options.maxInFlightBytes === undefined
+        ? undefined
+        : new InFlightBudget(parseFileUnit(options.maxInFlightBytes))
+
+    const checker = createChecker(app, options, metrics, inFlight)
+
+    // Validate Bun settings
+    if (options.validateBunConfig) assertBunConfig(checker)
+
+    // Merged over the plugin-wide options, default handlers follow the merged problemDetails
+    const mergeOptions = (overrides: OverridableBodyLimitOptions): ResolvedOptions => ({
+      ...getDefaultOptions(overrides.problemDetails ?? options.problemDetails),
+      ...userOptions,
+      quota: options.quota,
+      ...overrides,
+    })
+
+    // Rules are merged over the plugin-wide options once
+    const rules = (options.rules ?? []).map(({ method, path, ...ruleOptions }) => {
+      const ruleChecker = createChecker(app, mergeOptions(ruleOptions), metrics, inFlight)
+      if (options.validateBunConfig) assertBunConfig(ruleChecker)
+      return { matcher: compileMatcher(method, path), checker: ruleChecker }
+    })
+    const checkers = [checker, ...rules.map((rule) => rule.checker)]
+
+    // First matching rule, the plugin-wide checker otherwise
+    const matchChecker = (method: string, path: string) =>
+      rules.find((rule) => matchesRule(rule.matcher, method, path))?.checker ?? checker
+    const findChecker = (ctx: Context) => matchChecker(ctx.request.method, ctx.path)
+
+    // Document the limits on routes registered after the plugin, bodyless methods have none.
+    // Built per route, Elysia merges route details into a shared guard detail in place.
+    const add = app["add"].bind(app)
+    app["add"] = (
+      method: string,
+      path: string,
+      handler: unknown,
+      localHook?: { detail?: DocumentDecoration },
+      options?: { skipPrefix?: boolean },
+      ...rest: unknown[]
+    ) => {
+      if (checker.forbidBody.has(method))
+        return add(method, path, handler, localHook, options, ...rest)
+      // Rules are matched against the route pattern, e.g. "/api/upload/:name"
+      const prefix = options?.skipPrefix ? "" : (app.config.prefix ?? "")
+      const pattern = prefix + (path === "" || path.startsWith("/") ? path : `/${path}`)
+      const detail = createDetail(matchChecker(method, pattern))
+      return add(
+        method,
+        path,
+        handler,
+        {
+          ...localHook,
+          detail: {
+            ...detail,
+            ...localHook?.detail,
+            responses: { ...detail.responses, ...localHook?.detail?.responses },
+          },
+        },
+        options,
+        ...rest,
+      )
+    }
+
+    // Whether a route registered its own limit through the macro, keyed by "METHOD path".
+    const routeHooks = new Map<string, boolean>()
+
+    const hasRouteHook = (ctx: Context) => {
+      const method = ctx.request.method
+      const key = `${method} ${ctx.route}`
+      let found = routeHooks.get(key)
+      if (found === undefined) {
+        // Resolved lazily, the root app is only known once every plugin is mounted.
+        found = getRootApp(app).routes.some((route) => {
+          if (route.path !== ctx.route) return false
+          if (route.method !== method && route.method !== "ALL") return false
+          const parse = route.hooks.parse
+          // biome-ignore lint/suspicious/noExplicitAny: hook shape differs before and after compile
+          return [parse ?? []].flat().some((hook: any) => !!(hook?.fn ?? hook)?.[ROUTE_HOOK])
+        })
+        routeHooks.set(key, found)
+      }
+      return found
+    }
+
+    // Expose the collected metrics
+    if (metrics && metricsOptions.path !== false)
+      app.get(
+        metricsOptions.path ?? "/metrics",
+        () =>
+          new Response(metrics.toPrometheus(), {
+            headers: { "content-type": "text/plain; version=0.0.4; charset=utf-8" },
+          }),
+      )
+
+    // Remove temporary files once the response is sent
+    if (checkers.some((c) => c.spill)) app.onAfterResponse({ as: options.scope }, removeSpilledFile)
+
+    // Release bodies that were not fully streamed, e.g. rejected or read by Elysia itself
+    if (inFlight) app.onAfterResponse({ as: options.scope }, (ctx) => inFlight.release(ctx))
+
+    // Stop timing bodies that were never read, e.g. rejected by an async quota store
+    if (checkers.some(isTimed)) app.onAfterResponse({ as: options.scope }, stopBodyTimer)
+
+    // Routes using the macro check their own responses
+    if (checkers.some((c) => c.maxResponseSize !== Infinity))
+      app.mapResponse({ as: options.scope }, (ctx) => {
+        if (hasRouteHook(ctx as Context)) return
+        const matched = findChecker(ctx as Context)
+        if (matched.maxResponseSize === Infinity) return
+        return checkResponse(ctx as ResponseContext, matched)
+      })
+
+    // Headers are checked once per request, before the body or in transform for bodyless requests
+    const limitHeaders =
+      !!checker.headers || checker.maxUrlLength !== Infinity || checker.forbidBody.size > 0
+    const headersChecked = new WeakSet<object>()
+    const guardHeaders = (ctx: Context) => {
+      if (headersChecked.has(ctx)) return
+      headersChecked.add(ctx)
+      checkHeaders(ctx, checker)
+    }
+    if (limitHeaders) app.onTransform({ as: options.scope }, (ctx) => guardHeaders(ctx as Context))
+
+    return (
+      app
+        .onError(({ error, code }) => {
+          // sus, elysia simply throws it?!
+          if (
+            code === "PARSE" &&
+            (error.cause instanceof ElysiaStatus || error.cause instanceof Response)
+          )
+            return error.cause
+        })
+        .macro({
+          bodyLimit(routeOptions: RouteBodyLimitOptions) {
+            // Route options are checked on registration
+            const unknownKeys =
+              typeof routeOptions === "object"
+                ? Object.keys(routeOptions).filter((key) => !ROUTE_OPTION_KEYS.has(key))
+                : []
+            if (unknownKeys.length > 0)
+              throw new Error(`Unknown bodyLimit route options: ${unknownKeys.join(", ")}`)
+
+            const merged = mergeOptions(
+              typeof routeOptions === "object" ? routeOptions : { maxSize: routeOptions },
+            )
+            const routeChecker = createChecker(app, merged, metrics, inFlight)
+
+            // Route options are validated on registration as well
+            if (options.validateBunConfig) assertBunConfig(routeChecker)
+
+            return {
+              parse: Object.assign((ctx: ParseContext) => checkBody(ctx, routeChecker), {
+                [ROUTE_HOOK]: true,
+              }),
+              detail: createDetail(routeChecker),
+              ...((routeChecker.spill || isTimed(routeChecker)) && {
+                afterResponse: (ctx: Context) => {
+                  if (isTimed(routeChecker)) stopBodyTimer(ctx)
+                  if (routeChecker.spill) return removeSpilledFile(ctx)
+                },
+              }),
+              ...(routeChecker.maxResponseSize !== Infinity && {
+                mapResponse: (ctx: ResponseContext) => checkResponse(ctx, routeChecker),
+              }),
+            }
+          },
+        })
+        // Elysia does not throw ElysiaCustomStatusResponse inside parse hooks / parser somehow (Only Parse Error)
+        // Only onParse can throw. (Performance alert)
+        // Routes using the macro run their own parse hook instead, others use the first matching rule.
+        .onParse({ as: options.scope }, (ctx) => {
+          if (limitHeaders) guardHeaders(ctx as Context)
+          if (hasRouteHook(ctx as ParseContext)) return
+          return checkBody(ctx as ParseContext, findChecker(ctx as Context))
         })
     )
   }
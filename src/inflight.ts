@@ -0,0 +1,40 @@
+/**
+ * Bytes reserved by the bodies of all active requests, shared by a plugin and its routes.
+ *
+ * * Reservations are keyed by the request context, which outlives replaced requests.
+ */
+export class InFlightBudget {
+  private used = 0
+  private readonly reserved = new WeakMap<object, number>()
+
+  constructor(readonly max: number) {}
+
+  /**
+   * Bytes currently reserved.
+   */
+  get inFlight() {
+    return this.used
+  }
+
+  /**
+   * Reserve bytes for a request.
+   *
+   * @returns Whether the bytes fit into the budget, nothing is reserved otherwise
+   */
+  reserve(ctx: object, bytes: number) {
+    if (this.used + bytes > this.max) return false
+    this.used += bytes
+    this.reserved.set(ctx, (this.reserved.get(ctx) ?? 0) + bytes)
+    return true
+  }
+
+  /**
+   * Release every byte reserved by a request, safe to call more than once.
+   */
+  release(ctx: object) {
+    const bytes = this.reserved.get(ctx)
+    if (bytes === undefined) return
+    this.reserved.delete(ctx)
+    this.used -= bytes
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Options for inspecting `application/json` bodies
+ */
+export interface JsonLimitOptions {
+  /**
+   * Maximum nesting depth of objects and arrays.
+   *
+   * @example 32
+   */
+  maxDepth?: number
+  /**
+   * Maximum amount of keys in a single object.
+   */
+  maxKeys?: number
+  /**
+   * Maximum amount of elements in a single array.
+   */
+  maxArrayLength?: number
+  /**
+   * Maximum length of a single string (keys included) in bytes, escapes are counted as written.
+   */
+  maxStringLength?: number
+}
+
+/**
+ * Name of the JSON limit that was exceeded
+ */
+export type JsonLimit = keyof JsonLimitOptions
+
+/**
+ * Describes which JSON limit was exceeded
+ */
+export interface JsonViolation {
+  limit: JsonLimit
+}
+
+const QUOTE = 34 // "
+const BACKSLASH = 92 // \
+const COMMA = 44 // ,
+const COLON = 58 // :
+const OPEN_OBJECT = 123 // {
+const CLOSE_OBJECT = 125 // }
+const OPEN_ARRAY = 91 // [
+const CLOSE_ARRAY = 93 // ]
+
+interface Frame {
+  array: boolean
+  count: number
+  // Whether the next token starts a new key / element
+  expect: boolean
+}
+
+/**
+ * Incremental JSON tokenizer, only tracks structure and never keeps values.
+ *
+ * * Does not validate the syntax, the parser still does.
+ */
+export class JsonInspector {
+  private readonly maxDepth: number
+  private readonly maxKeys: number
+  private readonly maxArrayLength: number
+  private readonly maxStringLength: number
+
+  private readonly stack: Frame[] = []
+  private inString = false
+  private escaped = false
+  private stringLength = 0
+
+  constructor(options: JsonLimitOptions) {
+    this.maxDepth = options.maxDepth ?? Infinity
+    this.maxKeys = options.maxKeys ?? Infinity
+    this.maxArrayLength = options.maxArrayLength ?? Infinity
+    this.maxStringLength = options.maxStringLength ?? Infinity
+  }
+
+  /**
+   * Feed the next chunk of the body.
+   *
+   * @returns The violation when a limit is exceeded
+   */
+  write(chunk: Uint8Array): JsonViolation | undefined {
+    for (let i = 0; i < chunk.length; i++) {
+      const byte = chunk[i] as number
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false
+        else if (byte === BACKSLASH) this.escaped = true
+        else if (byte === QUOTE) {
+          this.inString = false
+          continue
+        }
+        if (++this.stringLength > this.maxStringLength) return { limit: "maxStringLength" }
+        continue
+      }
+
+      switch (byte) {
+        // Whitespace
+        case 32:
+        case 9:
+        case 10:
+        case 13:
+        case COLON:
+          continue
+
+        case COMMA: {
+          const top = this.stack.at(-1)
+          if (top) top.expect = true
+          continue
+        }
+
+        case CLOSE_OBJECT:
+        case CLOSE_ARRAY:
+          this.stack.pop()
+          continue
+      }
+
+      // Start of a value or key
+      const violation = this.startToken()
+      if (violation) return violation
+
+      if (byte === QUOTE) {
+        this.inString = true
+        this.stringLength = 0
+      } else if (byte === OPEN_OBJECT || byte === OPEN_ARRAY) {
+        this.stack.push({ array: byte === OPEN_ARRAY, count: 0, expect: true })
+        if (this.stack.length > this.maxDepth) return { limit: "maxDepth" }
+      }
+    }
+  }
+
+  private startToken(): JsonViolation | undefined {
+    const top = this.stack.at(-1)
+    if (!top?.expect) return
+    top.expect = false
+    top.count++
+    if (top.array) {
+      if (top.count > this.maxArrayLength) return { limit: "maxArrayLength" }
+    } else if (top.count > this.maxKeys) {
+      return { limit: "maxKeys" }
+    }
+  }
+}
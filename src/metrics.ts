@@ -0,0 +1,134 @@
+/**
+ * Kind of body limit decision
+ *
+ * * `accept`: The body passed every check, `size` is the declared or received size.
+ * * `reject`: The request was rejected by a handler.
+ * * `length-required`: The request was rejected by `onLengthRequired`.
+ * * `stream-aborted`: The client aborted while the body was streamed.
+ */
+export type BodyLimitEventType = "accept" | "reject" | "length-required" | "stream-aborted"
+
+/**
+ * A body limit decision, passed to `onMetric`
+ */
+export interface BodyLimitEvent {
+  type: BodyLimitEventType
+  /**
+   * Set when `type` is `reject`.
+   */
+  reason?: string
+  method: string
+  route: string
+  contentType: string
+  /**
+   * Bytes received, or the Content-Length when nothing was streamed.
+   */
+  size: number
+  /**
+   * The effective maximum size in bytes.
+   */
+  maxSize: number
+}
+
+/**
+ * Options for the built-in metrics
+ */
+export interface BodyLimitMetricsOptions {
+  /**
+   * Path of the mounted Prometheus endpoint, `false` to skip mounting.
+   *
+   * @default "/metrics"
+   */
+  path?: string | false
+  /**
+   * Upper bounds of the body size histogram buckets in bytes.
+   *
+   * @default 1KB to 1GB in powers of 4
+   */
+  buckets?: number[]
+}
+
+const DEFAULT_BUCKETS = Array.from({ length: 11 }, (_, i) => 1024 * 4 ** i)
+
+interface Histogram {
+  counts: number[]
+  sum: number
+  count: number
+}
+
+// Escape Prometheus label values
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"')
+
+const labels = (values: Record<string, string>) =>
+  Object.entries(values)
+    .map(([key, value]) => `${key}="${escapeLabel(value)}"`)
+    .join(",")
+
+/**
+ * In-memory metrics of body limit decisions.
+ *
+ * * Counts events per route and records accepted body sizes in a histogram per route.
+ */
+export class BodyLimitMetrics {
+  private readonly buckets: number[]
+  private readonly events = new Map<string, number>()
+  private readonly sizes = new Map<string, Histogram>()
+
+  constructor(buckets: number[] = DEFAULT_BUCKETS) {
+    this.buckets = [...buckets].sort((a, b) => a - b)
+  }
+
+  record(event: BodyLimitEvent) {
+    const key = labels({
+      method: event.method,
+      route: event.route,
+      type: event.type,
+      reason: event.reason ?? "",
+    })
+    this.events.set(key, (this.events.get(key) ?? 0) + 1)
+
+    if (event.type !== "accept") return
+
+    const route = labels({ method: event.method, route: event.route })
+    const histogram = this.sizes.get(route) ?? {
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }
+    this.sizes.set(route, histogram)
+    this.buckets.forEach((bucket, i) => {
+      if (event.size <= bucket) histogram.counts[i] = (histogram.counts[i] ?? 0) + 1
+    })
+    histogram.sum += event.size
+    histogram.count++
+  }
+
+  /**
+   * Export in the Prometheus text exposition format.
+   */
+  toPrometheus() {
+    const lines = [
+      "# HELP body_limit_events_total Body limit decisions.",
+      "# TYPE body_limit_events_total counter",
+    ]
+    for (const [key, value] of this.events) lines.push(`body_limit_events_total{${key}} ${value}`)
+
+    lines.push(
+      "# HELP body_limit_body_size_bytes Size of accepted request bodies.",
+      "# TYPE body_limit_body_size_bytes histogram",
+    )
+    for (const [route, histogram] of this.sizes) {
+      this.buckets.forEach((bucket, i) => {
+        lines.push(
+          `body_limit_body_size_bytes_bucket{${route},le="${bucket}"} ${histogram.counts[i]}`,
+        )
+      })
+      lines.push(`body_limit_body_size_bytes_bucket{${route},le="+Inf"} ${histogram.count}`)
+      lines.push(`body_limit_body_size_bytes_sum{${route}} ${histogram.sum}`)
+      lines.push(`body_limit_body_size_bytes_count{${route}} ${histogram.count}`)
+    }
+
+    return `${lines.join("\n")}\n`
+  }
+}
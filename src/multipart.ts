@@ -0,0 +1,221 @@
+import type { FileUnit } from "elysia/type-system/types"
+import { parseFileUnit } from "elysia/type-system/utils"
+
+/**
+ * Options for inspecting `multipart/form-data` bodies
+ */
+export interface MultipartLimitOptions {
+  /**
+   * Maximum size of a single file part.
+   *
+   * * Supports Elysia file unit.
+   * @example "10m"
+   */
+  maxFileSize?: FileUnit
+  /**
+   * Maximum size of a single non-file field.
+   *
+   * * Supports Elysia file unit.
+   * @example "64k"
+   */
+  maxFieldSize?: FileUnit
+  /**
+   * Maximum amount of file parts.
+   */
+  maxFiles?: number
+  /**
+   * Maximum amount of non-file fields.
+   */
+  maxFields?: number
+  /**
+   * Maximum amount of parts (files and fields).
+   */
+  maxParts?: number
+}
+
+/**
+ * Name of the multipart limit that was exceeded
+ */
+export type MultipartLimit = keyof MultipartLimitOptions
+
+/**
+ * Describes which multipart limit was exceeded and on which field
+ */
+export interface MultipartViolation {
+  limit: MultipartLimit
+  /**
+   * Field name from `Content-Disposition`, `""` when missing.
+   */
+  field: string
+}
+
+export interface MultipartLimits {
+  maxFileSize: number
+  maxFieldSize: number
+  maxFiles: number
+  maxFields: number
+  maxParts: number
+}
+
+export const parseMultipartLimits = (options: MultipartLimitOptions): MultipartLimits => {
+  return {
+    maxFileSize: options.maxFileSize === undefined ? Infinity : parseFileUnit(options.maxFileSize),
+    maxFieldSize:
+      options.maxFieldSize === undefined ? Infinity : parseFileUnit(options.maxFieldSize),
+    maxFiles: options.maxFiles ?? Infinity,
+    maxFields: options.maxFields ?? Infinity,
+    maxParts: options.maxParts ?? Infinity,
+  }
+}
+
+/**
+ * Get the boundary parameter from a Content-Type header.
+ */
+export const getBoundary = (contentType: string | null) => {
+  if (!contentType) return
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType)
+  return match?.[1] ?? match?.[2]
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const CRLF = encoder.encode("\r\n")
+const HEADER_END = encoder.encode("\r\n\r\n")
+
+type State = "preamble" | "delimiter" | "headers" | "body" | "done"
+
+const concat = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length === 0) return b
+  const result = new Uint8Array(a.length + b.length)
+  result.set(a)
+  result.set(b, a.length)
+  return result
+}
+
+const indexOf = (haystack: Uint8Array, needle: Uint8Array) =>
+  Buffer.from(haystack.buffer, haystack.byteOffset, haystack.length).indexOf(needle)
+
+/**
+ * Incremental `multipart/form-data` parser, only counts sizes and never keeps part data.
+ */
+export class MultipartInspector {
+  private readonly delimiter: Uint8Array
+  // The first delimiter has no leading CRLF, treat the body as if it had one.
+  private buffer: Uint8Array = CRLF
+  private state: State = "preamble"
+
+  private parts = 0
+  private files = 0
+  private fields = 0
+
+  private field = ""
+  private isFile = false
+  private size = 0
+
+  constructor(
+    boundary: string,
+    private readonly limits: MultipartLimits,
+  ) {
+    this.delimiter = encoder.encode(`\r\n--${boundary}`)
+  }
+
+  /**
+   * Feed the next chunk of the body.
+   *
+   * @returns The violation when a limit is exceeded
+   */
+  write(chunk: Uint8Array): MultipartViolation | undefined {
+    if (this.state === "done") return
+    this.buffer = concat(this.buffer, chunk)
+
+    while (true) {
+      switch (this.state) {
+        case "preamble": {
+          const index = indexOf(this.buffer, this.delimiter)
+          if (index === -1) {
+            // Keep a possible partial delimiter
+            this.buffer = this.buffer.slice(
+              Math.max(0, this.buffer.length - this.delimiter.length + 1),
+            )
+            return
+          }
+          this.buffer = this.buffer.slice(index + this.delimiter.length)
+          this.state = "delimiter"
+          break
+        }
+
+        case "delimiter": {
+          if (this.buffer.length < 2) return
+          // "--" closes the body
+          if (this.buffer[0] === 45 && this.buffer[1] === 45) {
+            this.state = "done"
+            this.buffer = new Uint8Array()
+            return
+          }
+          const index = indexOf(this.buffer, CRLF)
+          if (index === -1) return
+          // Skip transport padding
+          this.buffer = this.buffer.slice(index + CRLF.length)
+          this.state = "headers"
+
+          if (++this.parts > this.limits.maxParts) return { limit: "maxParts", field: "" }
+          break
+        }
+
+        case "headers": {
+          // Part without headers
+          if (this.buffer.length >= 2 && this.buffer[0] === 13 && this.buffer[1] === 10) {
+            this.startPart("")
+            this.buffer = this.buffer.slice(2)
+          } else {
+            const index = indexOf(this.buffer, HEADER_END)
+            if (index === -1) return
+            this.startPart(decoder.decode(this.buffer.subarray(0, index)))
+            this.buffer = this.buffer.slice(index + HEADER_END.length)
+          }
+          this.state = "body"
+
+          if (this.isFile && ++this.files > this.limits.maxFiles)
+            return { limit: "maxFiles", field: this.field }
+          if (!this.isFile && ++this.fields > this.limits.maxFields)
+            return { limit: "maxFields", field: this.field }
+          break
+        }
+
+        case "body": {
+          const index = indexOf(this.buffer, this.delimiter)
+          if (index === -1) {
+            // Count everything except a possible partial delimiter
+            const consumed = Math.max(0, this.buffer.length - this.delimiter.length + 1)
+            this.size += consumed
+            this.buffer = this.buffer.slice(consumed)
+            return this.checkSize()
+          }
+          this.size += index
+          this.buffer = this.buffer.slice(index + this.delimiter.length)
+          this.state = "delimiter"
+
+          const violation = this.checkSize()
+          if (violation) return violation
+          break
+        }
+      }
+    }
+  }
+
+  private startPart(headers: string) {
+    const disposition = /^content-disposition:(.*)$/im.exec(headers)?.[1] ?? ""
+    this.field = /\bname="([^"]*)"/i.exec(disposition)?.[1] ?? ""
+    this.isFile = /\bfilename\*?=/i.test(disposition)
+    this.size = 0
+  }
+
+  private checkSize(): MultipartViolation | undefined {
+    if (this.isFile) {
+      if (this.size > this.limits.maxFileSize) return { limit: "maxFileSize", field: this.field }
+    } else if (this.size > this.limits.maxFieldSize) {
+      return { limit: "maxFieldSize", field: this.field }
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import type { FileUnit } from "elysia/type-system/types"
+
+/**
+ * Progress of a streamed request body
+ */
+export interface BodyProgress {
+  /**
+   * Bytes received so far.
+   */
+  received: number
+  /**
+   * The Content-Length, `undefined` for chunked bodies.
+   */
+  total?: number
+  /**
+   * The effective maximum size in bytes.
+   */
+  limit: number
+}
+
+/**
+ * How often `onProgress` is called, checked as chunks arrive
+ */
+export interface ProgressThrottle {
+  /**
+   * Call at most once per amount of received bytes.
+   *
+   * * Supports Elysia file unit.
+   * @example "64k"
+   */
+  bytes?: FileUnit
+  /**
+   * Call at most once per interval in milliseconds.
+   *
+   * @example 250
+   */
+  interval?: number
+}
+
+// Progress of streamed bodies, keyed by the request context
+const progresses = new WeakMap<object, BodyProgress>()
+
+/**
+ * Read the progress of the request body, `undefined` when the body was not streamed.
+ *
+ * @example
+ * ```ts
+ * app.post("/upload", (ctx) => {
+ *    console.log(getBodyProgress(ctx)?.received)
+ * })
+ * ```
+ */
+export const getBodyProgress = (ctx: object): BodyProgress | undefined => {
+  const progress = progresses.get(ctx)
+  return progress && { ...progress }
+}
+
+/**
+ * Track the progress of a streamed body.
+ *
+ * * `onProgress` is called once either throttle is reached, and always once the body is complete.
+ * @returns A function to call with the received bytes
+ */
+export const trackProgress = (
+  ctx: object,
+  progress: BodyProgress,
+  throttle: { bytes: number; interval: number },
+  onProgress?: (progress: BodyProgress) => void,
+) => {
+  progresses.set(ctx, progress)
+  let lastBytes = 0
+  let lastTime = performance.now()
+
+  return (received: number, done = false) => {
+    progress.received = received
+    if (!onProgress) return
+
+    const now = performance.now()
+    if (!done && received - lastBytes < throttle.bytes && now - lastTime < throttle.interval) return
+    lastBytes = received
+    lastTime = now
+    onProgress({ ...progress })
+  }
+}
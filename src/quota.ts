@@ -0,0 +1,113 @@
+import type { Context } from "elysia"
+import type { FileUnit } from "elysia/type-system/types"
+
+/**
+ * Bytes received by a key within the current window
+ */
+export interface QuotaUsage {
+  /**
+   * Bytes received within the window, including the latest increment.
+   */
+  total: number
+  /**
+   * Milliseconds until the oldest counted bytes leave the window.
+   */
+  resetAfter: number
+}
+
+/**
+ * Storage for per-client quotas, implement it to share quotas between processes.
+ */
+export interface QuotaStore {
+  /**
+   * Add received bytes to a key.
+   *
+   * @param key The client key from `keyGenerator`
+   * @param bytes Bytes received
+   * @param window The window size in milliseconds
+   */
+  increment(key: string, bytes: number, window: number): QuotaUsage | Promise<QuotaUsage>
+}
+
+/**
+ * Options for limiting the total bytes a client can send
+ */
+export interface QuotaOptions {
+  /**
+   * Maximum bytes per client within `window`.
+   *
+   * * Supports Elysia file unit.
+   * @example "100m"
+   */
+  max: FileUnit
+  /**
+   * The sliding window in milliseconds.
+   *
+   * @example 60_000
+   */
+  window: number
+  /**
+   * Generate the client key, requests without a key are not counted.
+   *
+   * * The client IP is unknown without a server object, e.g. under `app.handle` or on some adapters.
+   * @default The client IP address
+   */
+  keyGenerator?: (ctx: Context) => string | undefined
+  /**
+   * The quota storage.
+   *
+   * @default MemoryQuotaStore
+   */
+  store?: QuotaStore
+}
+
+// Amount of buckets a window is split into
+const BUCKETS = 10
+
+interface Bucket {
+  start: number
+  bytes: number
+}
+
+/**
+ * In-memory sliding window quota store, counted in buckets of a tenth of the window.
+ */
+export class MemoryQuotaStore implements QuotaStore {
+  private readonly keys = new Map<string, Bucket[]>()
+  private lastSweep = Date.now()
+
+  increment(key: string, bytes: number, window: number): QuotaUsage {
+    const now = Date.now()
+    this.sweep(now, window)
+
+    const size = Math.max(1, Math.ceil(window / BUCKETS))
+    const start = now - (now % size)
+
+    const buckets = this.prune(this.keys.get(key) ?? [], now, window)
+    const last = buckets.at(-1)
+    if (last?.start === start) last.bytes += bytes
+    else buckets.push({ start, bytes })
+    this.keys.set(key, buckets)
+
+    let total = 0
+    for (const bucket of buckets) total += bucket.bytes
+
+    const oldest = buckets[0] as Bucket
+    return { total, resetAfter: oldest.start + window - now }
+  }
+
+  private prune(buckets: Bucket[], now: number, window: number) {
+    let expired = 0
+    while (expired < buckets.length && (buckets[expired] as Bucket).start + window <= now) expired++
+    return expired ? buckets.slice(expired) : buckets
+  }
+
+  // Drop idle keys once per window
+  private sweep(now: number, window: number) {
+    if (now - this.lastSweep < window) return
+    this.lastSweep = now
+    for (const [key, buckets] of this.keys) {
+      if (this.prune(buckets, now, window).length === 0) this.keys.delete(key)
+    }
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Compiled method and path pattern of a rule
+ */
+export interface RuleMatcher {
+  methods?: Set<string>
+  path?: RegExp
+}
+
+// Glob to anchored regex, `*` matches any characters including `/`
+const compileGlob = (glob: string) =>
+  new RegExp(`^${glob.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replaceAll("*", ".*")}$`)
+
+// Copy without the `g` and `y` flags, `test` would continue from `lastIndex` otherwise
+const stateless = (regex?: RegExp) =>
+  regex && new RegExp(regex.source, regex.flags.replace(/[gy]/g, ""))
+
+/**
+ * Compile a rule pattern, unset or `"*"` matches anything.
+ */
+export const compileMatcher = (method?: string | string[], path?: string | RegExp): RuleMatcher => {
+  const methods = [method ?? []].flat().map((value) => value.toUpperCase())
+  return {
+    methods: methods.length && !methods.includes("*") ? new Set(methods) : undefined,
+    path:
+      typeof path === "string" ? (path === "*" ? undefined : compileGlob(path)) : stateless(path),
+  }
+}
+
+/**
+ * Whether a request matches a rule.
+ */
+export const matchesRule = (matcher: RuleMatcher, method: string, path: string) =>
+  (!matcher.methods || matcher.methods.has(method)) && (!matcher.path || matcher.path.test(path))
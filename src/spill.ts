@@ -0,0 +1,100 @@
+import { randomUUID } from "node:crypto"
+import { openAsBlob } from "node:fs"
+import { type FileHandle, mkdtemp, open, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import type { FileUnit } from "elysia/type-system/types"
+
+/**
+ * Options for writing large bodies to temporary files
+ */
+export interface SpillOptions {
+  /**
+   * Bodies larger than this are written to a temporary file instead of being kept in memory.
+   *
+   * * Supports Elysia file unit.
+   * @example "10m"
+   */
+  threshold: FileUnit
+  /**
+   * Directory of the temporary files.
+   *
+   * * Files are only readable by the server's user.
+   * @default A private directory in os.tmpdir()
+   */
+  directory?: string
+}
+
+// Temporary files of in-flight requests
+const spilledFiles = new WeakMap<Request, string>()
+
+// Directory only the server's user can list, created on the first spill without a `directory`
+let privateDirectory: Promise<string> | undefined
+const getPrivateDirectory = () =>
+  (privateDirectory ??= mkdtemp(join(tmpdir(), "elysia-body-limit-")))
+
+/**
+ * Read a body into memory, or into a temporary file once it grows over the threshold.
+ *
+ * * The file is removed when reading fails, e.g. when a limit is exceeded partway.
+ * @returns The buffered chunks, or the path of the temporary file
+ */
+export const spillBody = async (
+  body: ReadableStream<Uint8Array>,
+  threshold: number,
+  directory?: string,
+): Promise<{ chunks: Uint8Array[] } | { path: string }> => {
+  const chunks: Uint8Array[] = []
+  let size = 0
+  let path: string | undefined
+  let file: FileHandle | undefined
+
+  try {
+    for await (const chunk of body) {
+      if (file) {
+        await file.write(chunk)
+        continue
+      }
+
+      chunks.push(chunk)
+      size += chunk.length
+      if (size <= threshold) continue
+
+      // Over the threshold, move everything buffered so far to disk
+      path = join(directory ?? (await getPrivateDirectory()), `elysia-body-limit-${randomUUID()}`)
+      file = await open(path, "wx", 0o600)
+      for (const buffered of chunks) await file.write(buffered)
+      chunks.length = 0
+    }
+    await file?.close()
+  } catch (e) {
+    await file?.close().catch(() => {})
+    if (path) await rm(path, { force: true })
+    throw e
+  }
+
+  return path ? { path } : { chunks }
+}
+
+/**
+ * Open a temporary file for the handler, a `Bun.file` on Bun and a `Blob` elsewhere.
+ */
+export const openSpilledFile = (path: string, type?: string) =>
+  typeof Bun === "undefined" ? openAsBlob(path, { type }) : Bun.file(path, { type })
+
+/**
+ * Remember a temporary file to remove once the response is sent.
+ */
+export const trackSpilledFile = (request: Request, path: string) => {
+  spilledFiles.set(request, path)
+}
+
+/**
+ * Remove the temporary file of a request, if any.
+ */
+export const removeSpilledFile = ({ request }: { request: Request }) => {
+  const path = spilledFiles.get(request)
+  if (!path) return
+  spilledFiles.delete(request)
+  return rm(path, { force: true })
+}
@@ -0,0 +1,294 @@
+import type { FileUnit } from "elysia/type-system/types"
+import { parseFileUnit } from "elysia/type-system/utils"
+
+/**
+ * How the body of a test request is sent
+ *
+ * * `content-length`: A fixed body with a matching Content-Length.
+ * * `chunked`: A streamed body with `Transfer-Encoding: chunked`.
+ * * `missing-length`: A streamed body without Content-Length or Transfer-Encoding.
+ */
+export type TestBodyKind = "content-length" | "chunked" | "missing-length"
+
+/**
+ * Options of the test request builders
+ */
+export interface TestRequestOptions {
+  /**
+   * @default "POST"
+   */
+  method?: string
+  /**
+   * Path and query of the request.
+   *
+   * @default "/"
+   */
+  path?: string
+  /**
+   * @default "text/plain"
+   */
+  contentType?: string
+  /**
+   * Extra headers, merged over the generated ones.
+   */
+  headers?: Record<string, string>
+  /**
+   * Maximum size of each streamed chunk in bytes.
+   *
+   * @default 16384
+   */
+  chunkSize?: number
+}
+
+/**
+ * An Elysia app, or anything else handling web standard requests
+ */
+export interface TestApp {
+  handle(request: Request): Response | Promise<Response>
+}
+
+const encoder = new TextEncoder()
+
+// Body of `size` bytes
+const createPayload = (size: number) => "x".repeat(size)
+
+// Split a payload into chunks of at most `chunkSize` bytes
+const splitPayload = (payload: string, chunkSize = 16 * 1024) => {
+  const chunks: string[] = []
+  for (let i = 0; i < payload.length; i += chunkSize) chunks.push(payload.slice(i, i + chunkSize))
+  return chunks
+}
+
+const createRequest = (
+  options: TestRequestOptions,
+  body: string | ReadableStream<Uint8Array>,
+  headers: Record<string, string>,
+) =>
+  new Request(`http://localhost${options.path ?? "/"}`, {
+    method: options.method ?? "POST",
+    headers: {
+      "content-type": options.contentType ?? "text/plain",
+      ...headers,
+      ...options.headers,
+    },
+    body,
+    ...(typeof body !== "string" && { duplex: "half" as const }),
+  })
+
+/**
+ * A stream enqueuing every chunk at once.
+ */
+export const createStreamBody = (...chunks: (string | Uint8Array)[]): ReadableStream<Uint8Array> =>
+  new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks)
+        controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk)
+      controller.close()
+    },
+  })
+
+/**
+ * Options of `createTrickleBody`
+ */
+export interface TrickleBodyOptions {
+  /**
+   * Milliseconds between chunks.
+   */
+  interval: number
+  /**
+   * Keep the stream open once the chunks run out, like a stalled client.
+   *
+   * @default false
+   */
+  stall?: boolean
+}
+
+/**
+ * A stream enqueuing one chunk per `interval` milliseconds, like a slow client.
+ *
+ * @example
+ * ```ts
+ * createTrickleBody(100, "slow", "body")
+ * createTrickleBody({ interval: 10, stall: true }, "never ends")
+ * ```
+ */
+export const createTrickleBody = (
+  options: number | TrickleBodyOptions,
+  ...chunks: (string | Uint8Array)[]
+): ReadableStream<Uint8Array> => {
+  const { interval, stall } = typeof options === "number" ? { interval: options } : options
+  return new ReadableStream({
+    async pull(controller) {
+      const chunk = chunks.shift()
+      if (chunk === undefined) return stall ? new Promise(() => {}) : controller.close()
+      await new Promise((resolve) => setTimeout(resolve, interval))
+      controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk)
+    },
+  })
+}
+
+/**
+ * A request of `size` bytes with a matching Content-Length.
+ *
+ * * Supports Elysia file unit.
+ */
+export const createLengthRequest = (size: FileUnit, options: TestRequestOptions = {}) => {
+  const payload = createPayload(parseFileUnit(size))
+  return createRequest(options, payload, { "content-length": `${payload.length}` })
+}
+
+/**
+ * A chunked request of `size` bytes.
+ *
+ * * Supports Elysia file unit.
+ */
+export const createChunkedRequest = (size: FileUnit, options: TestRequestOptions = {}) => {
+  const chunks = splitPayload(createPayload(parseFileUnit(size)), options.chunkSize)
+  return createRequest(options, createStreamBody(...chunks), { "transfer-encoding": "chunked" })
+}
+
+/**
+ * A chunked request of `size` bytes, sending one chunk per `interval` milliseconds.
+ *
+ * * Supports Elysia file unit.
+ */
+export const createTrickleRequest = (
+  size: FileUnit,
+  interval: number,
+  options: TestRequestOptions = {},
+) => {
+  const chunks = splitPayload(createPayload(parseFileUnit(size)), options.chunkSize)
+  return createRequest(options, createTrickleBody(interval, ...chunks), {
+    "transfer-encoding": "chunked",
+  })
+}
+
+/**
+ * A streamed request of `size` bytes without Content-Length or Transfer-Encoding.
+ *
+ * * Supports Elysia file unit.
+ */
+export const createMissingLengthRequest = (size: FileUnit, options: TestRequestOptions = {}) => {
+  const chunks = splitPayload(createPayload(parseFileUnit(size)), options.chunkSize)
+  return createRequest(options, createStreamBody(...chunks), {})
+}
+
+/**
+ * A request of `size` bytes declaring `declaredLength` as its Content-Length.
+ *
+ * * Supports Elysia file unit.
+ */
+export const createMismatchedLengthRequest = (
+  size: FileUnit,
+  declaredLength: number,
+  options: TestRequestOptions = {},
+) =>
+  createRequest(options, createPayload(parseFileUnit(size)), {
+    "content-length": `${declaredLength}`,
+  })
+
+/**
+ * A request of `size` bytes sent as `kind`.
+ */
+export const createBodyRequest = (
+  kind: TestBodyKind,
+  size: FileUnit,
+  options: TestRequestOptions = {},
+) => {
+  if (kind === "chunked") return createChunkedRequest(size, options)
+  if (kind === "missing-length") return createMissingLengthRequest(size, options)
+  return createLengthRequest(size, options)
+}
+
+// e.g. "POST /upload (Content-Length: 1025)"
+const describeRequest = (request: Request) => {
+  const url = new URL(request.url)
+  const length = request.headers.get("content-length")
+  const framing =
+    length !== null
+      ? `Content-Length: ${length}`
+      : request.headers.has("transfer-encoding")
+        ? "chunked"
+        : "no length"
+  return `${request.method} ${url.pathname}${url.search} (${framing})`
+}
+
+/**
+ * Send a request and throw unless the app responds with `status`.
+ *
+ * @returns The response
+ */
+export const expectStatus = async (app: TestApp, request: Request, status: number) => {
+  const name = describeRequest(request)
+  const response = await app.handle(request)
+  if (response.status !== status)
+    throw new Error(`Expected ${name} to respond with ${status}, got ${response.status}`)
+  return response
+}
+
+/**
+ * Send a request and throw unless the app rejects it with `status`.
+ *
+ * @returns The response
+ */
+export const expectRejected = (app: TestApp, request: Request, status = 413) =>
+  expectStatus(app, request, status)
+
+/**
+ * Send a request and throw unless the app responds with a status below 400.
+ *
+ * @returns The response
+ */
+export const expectAccepted = async (app: TestApp, request: Request) => {
+  const name = describeRequest(request)
+  const response = await app.handle(request)
+  if (response.status >= 400)
+    throw new Error(`Expected ${name} to be accepted, got ${response.status}`)
+  return response
+}
+
+/**
+ * Options of `assertBodyLimit`
+ */
+export interface BodyLimitAssertion extends TestRequestOptions {
+  /**
+   * The limit expected on the route.
+   *
+   * * Supports Elysia file unit.
+   */
+  maxSize: FileUnit
+  /**
+   * Status of the rejection.
+   *
+   * @default 413
+   */
+  status?: number
+  /**
+   * How the bodies are sent.
+   *
+   * * `chunked` requires `bodyCheck` on Bun.
+   * * `missing-length` is only counted outside Bun, Bun.serve drops such bodies on its own.
+   *
+   * @default ["content-length", "chunked"]
+   */
+  kinds?: TestBodyKind[]
+}
+
+/**
+ * Throw unless a route accepts bodies of exactly `maxSize` bytes and rejects one byte more, for every kind.
+ *
+ * @example
+ * ```ts
+ * await assertBodyLimit(app, { path: "/upload", maxSize: "10m" })
+ * await assertBodyLimit(app, { path: "/avatar", contentType: "image/png", maxSize: "1m", kinds: ["content-length"] })
+ * ```
+ */
+export const assertBodyLimit = async (app: TestApp, assertion: BodyLimitAssertion) => {
+  const { maxSize, status, kinds = ["content-length", "chunked"], ...options } = assertion
+  const size = parseFileUnit(maxSize)
+
+  for (const kind of kinds) {
+    await expectAccepted(app, createBodyRequest(kind, size, options))
+    await expectRejected(app, createBodyRequest(kind, size + 1, options), status)
+  }
+}
@@ -0,0 +1,147 @@
+import type { FileUnit } from "elysia/type-system/types"
+import { parseFileUnit } from "elysia/type-system/utils"
+import type { ElysiaWS } from "elysia/ws"
+
+/**
+ * Where the WebSocket violation was detected
+ *
+ * * `message-size`: A single message is larger than `maxMessageSize`.
+ * * `message-rate`: More than `messageRate.max` messages were received within `messageRate.window`.
+ * * `total-bytes`: The connection received more than `maxTotalBytes`.
+ */
+export type WebSocketLimitReason = "message-size" | "message-rate" | "total-bytes"
+
+/**
+ * Details of a dropped WebSocket message, passed to `onLimit`
+ */
+export interface WebSocketLimitViolation {
+  reason: WebSocketLimitReason
+  /**
+   * Bytes of the message, messages within the window, or bytes of the connection.
+   */
+  received: number
+  /**
+   * The exceeded limit.
+   */
+  limit: number
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: any route
+type AnyElysiaWS = ElysiaWS<any, any>
+
+/**
+ * Options for limiting WebSocket messages
+ */
+export interface WebSocketLimitOptions {
+  /**
+   * Maximum size of a single message.
+   *
+   * * Supports Elysia file unit.
+   * * Bun closes connections above `maxPayloadLength` (16MB by default) on its own.
+   * @example "64k"
+   */
+  maxMessageSize?: FileUnit
+  /**
+   * Maximum amount of messages per connection within a fixed window in milliseconds.
+   *
+   * @example { max: 50, window: 1000 }
+   */
+  messageRate?: { max: number; window: number }
+  /**
+   * Maximum bytes a single connection can send over its lifetime.
+   *
+   * * Supports Elysia file unit.
+   * @example "100m"
+   */
+  maxTotalBytes?: FileUnit
+  /**
+   * The handler when a limit is triggered, the message is dropped either way.
+   *
+   * * Closes the connection with 1009 (Message Too Big) by default.
+   *
+   * @example
+   * ```ts
+   * (ws, violation) => {
+   *    ws.close(1008, violation.reason)
+   * }
+   * ```
+   */
+  onLimit?: (ws: AnyElysiaWS, violation: WebSocketLimitViolation) => void
+}
+
+// Raw message handler Elysia attaches to the connection
+type MessageHandler = (raw: AnyElysiaWS["raw"], message: string | Buffer) => unknown
+
+/**
+ * WebSocket message limits for `.ws()` routes.
+ *
+ * * Use the returned function as `open`, or call it first thing in your own `open`.
+ * * It wraps the raw message handler Elysia keeps on `ws.raw.data`, so messages are measured before Elysia parses them.
+ * * Requires the Bun adapter, warns once and limits nothing elsewhere.
+ *
+ * @example
+ * ```ts
+ * const limitMessages = wsLimit({ maxMessageSize: "64k", messageRate: { max: 50, window: 1000 } })
+ *
+ * app.ws("/chat", {
+ *   open(ws) {
+ *     limitMessages(ws)
+ *     ws.subscribe("chat")
+ *   },
+ *   message(ws, message) {
+ *     ws.send(message)
+ *   },
+ * })
+ * ```
+ */
+export const wsLimit = (options: WebSocketLimitOptions) => {
+  const maxMessageSize =
+    options.maxMessageSize === undefined ? Infinity : parseFileUnit(options.maxMessageSize)
+  const maxTotalBytes =
+    options.maxTotalBytes === undefined ? Infinity : parseFileUnit(options.maxTotalBytes)
+  const rate = options.messageRate
+  const onLimit = options.onLimit ?? ((ws: AnyElysiaWS) => ws.close(1009, "Message limit exceeded"))
+
+  let warned = false
+
+  return (ws: AnyElysiaWS) => {
+    const data = ws.raw.data as { message?: MessageHandler }
+    const handle = data.message
+    if (!handle) {
+      // Other adapters keep the handler elsewhere, the connection would silently have no limits
+      if (!warned) {
+        warned = true
+        console.warn("wsLimit requires the Bun adapter, WebSocket messages are not limited!")
+      }
+      return
+    }
+
+    let total = 0
+    let windowStart = Date.now()
+    let count = 0
+
+    const check = (size: number): WebSocketLimitViolation | undefined => {
+      if (size > maxMessageSize)
+        return { reason: "message-size", received: size, limit: maxMessageSize }
+
+      total += size
+      if (total > maxTotalBytes)
+        return { reason: "total-bytes", received: total, limit: maxTotalBytes }
+
+      if (!rate) return
+      const now = Date.now()
+      if (now - windowStart >= rate.window) {
+        windowStart = now
+        count = 0
+      }
+      if (++count > rate.max) return { reason: "message-rate", received: count, limit: rate.max }
+    }
+
+    data.message = (raw, message) => {
+      const size = typeof message === "string" ? Buffer.byteLength(message) : message.byteLength
+      const violation = check(size)
+      if (violation) return onLimit(ws, violation)
+      return handle(raw, message)
+    }
+  }
+}
@@ -1,19 +1,36 @@
-import { describe, expect, it } from "bun:test"
-import { Elysia } from "elysia"
-import { bodyLimit, type ElysiaBodyLimitOptions } from "../src"
+import { describe, expect, it, spyOn } from "bun:test"
+import { mkdtemp, readdir, stat } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { dirname, join } from "node:path"
+import { brotliCompressSync, gzipSync } from "node:zlib"
+import { type Context, Elysia, status } from "elysia"
+import { BunAdapter } from "elysia/adapter/bun"
+import { WebStandardAdapter } from "elysia/adapter/web-standard"
+import {
+  type BodyLimitEvent,
+  type BodyLimitViolation,
+  type BodyProgress,
+  bodyLimit,
+  type ElysiaBodyLimitOptions,
+  getBodyProgress,
+  MemoryQuotaStore,
+  type QuotaStore,
+  type WebSocketLimitViolation,
+  wsLimit,
+} from "../src"
+import {
+  assertBodyLimit,
+  createLengthRequest,
+  createMismatchedLengthRequest,
+  createMissingLengthRequest,
+  createStreamBody,
+  createTrickleBody,
+  createTrickleRequest,
+  expectAccepted,
+  expectRejected,
+} from "../src/testing"
 
 // Utils
-function createStreamBody(...chunks: string[]): ReadableStream<Uint8Array> {
-  return new ReadableStream({
-    start(controller) {
-      for (const chunk of chunks) {
-        controller.enqueue(new TextEncoder().encode(chunk))
-      }
-      controller.close()
-    },
-  })
-}
-
 function createBodyLimitApp(
   bodyLimitOptions: ElysiaBodyLimitOptions,
   configure: (app: any) => any,
@@ -52,6 +69,20 @@ async function sendRequest(
   )
 }
 
+function createMultipartBody(
+  boundary: string,
+  parts: { name: string; value: string; filename?: string }[],
+): string {
+  let body = ""
+  for (const { name, value, filename } of parts) {
+    body += `--${boundary}\r\n`
+    body += `Content-Disposition: form-data; name="${name}"`
+    body += filename ? `; filename="${filename}"\r\nContent-Type: text/plain\r\n\r\n` : "\r\n\r\n"
+    body += `${value}\r\n`
+  }
+  return `${body}--${boundary}--\r\n`
+}
+
 // Tests
 describe("Elysia Body Limit Plugin", () => {
   describe("Basic Limits", () => {
@@ -103,6 +134,66 @@ describe("Elysia Body Limit Plugin", () => {
     })
   })
 
+  describe("Dynamic Limits", () => {
+    it("should resolve maxSize per request", async () => {
+      const app = createBodyLimitApp(
+        {
+          bodyCheck: true,
+          maxSize: async (ctx) => (ctx.request.headers.get("x-premium") ? "1k" : 5),
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const anonymous = await sendRequest(app, {
+        body: "This is too long",
+        headers: { "content-type": "text/plain" },
+      })
+      expect(anonymous.status).toBe(413)
+
+      const premium = await sendRequest(app, {
+        body: "This is too long",
+        headers: { "content-type": "text/plain", "x-premium": "1" },
+      })
+      expect(premium.status).toBe(200)
+
+      const stream = await sendRequest(app, {
+        body: createStreamBody("This is", " too long"),
+        headers: { "content-type": "text/plain" },
+      })
+      expect(stream.status).toBe(413)
+    })
+
+    it("should clamp resolved sizes to Bun maxRequestBodySize", async () => {
+      const violations: BodyLimitViolation[] = []
+      const app = new Elysia({ serve: { maxRequestBodySize: 8 } })
+        .use(
+          bodyLimit({
+            maxSize: () => Infinity,
+            onLimit: (ctx, violation) => {
+              violations.push(violation)
+              return ctx.status(413)
+            },
+          }),
+        )
+        .post("/", ({ body }) => body)
+
+      const response = await sendRequest(app, {
+        body: "This is too long",
+        headers: { "content-type": "text/plain" },
+      })
+      expect(response.status).toBe(413)
+      expect(violations[0]?.maxSize).toBe(8)
+    })
+
+    it("should clamp or warn on startup instead of throwing", () => {
+      expect(() =>
+        new Elysia({ serve: { maxRequestBodySize: 1024 } }).use(
+          bodyLimit({ maxSize: "2k", validateBunConfig: "clamp" }),
+        ),
+      ).not.toThrow()
+    })
+  })
+
   describe("Strict Mode", () => {
     it("should enforce strictContentLength if enabled", async () => {
       const app = createBodyLimitApp({ maxSize: 999999, strictContentLength: true }, (app) =>
@@ -407,4 +498,1789 @@ describe("Elysia Body Limit Plugin", () => {
       expect(otherResponse.status).toBe(200)
     })
   })
+
+  describe("Content-Length Verification", () => {
+    const createApp = (violations: BodyLimitViolation[] = []) =>
+      createBodyLimitApp(
+        {
+          maxSize: "1k",
+          verifyContentLength: true,
+          onLengthMismatch: (ctx, violation) => {
+            violations.push(violation)
+            return ctx.status(400)
+          },
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+    it("should reject bodies longer than Content-Length", async () => {
+      const violations: BodyLimitViolation[] = []
+      const response = await sendRequest(createApp(violations), {
+        body: "Hello World",
+        headers: { "content-type": "text/plain", "content-length": "5" },
+        skipContentLength: true,
+      })
+
+      expect(response.status).toBe(400)
+      expect(violations[0]).toMatchObject({
+        reason: "length-mismatch",
+        declaredLength: 5,
+        received: 11,
+      })
+    })
+
+    it("should reject bodies shorter than Content-Length", async () => {
+      const response = await sendRequest(createApp(), {
+        body: "Hello World",
+        headers: { "content-type": "text/plain", "content-length": "50" },
+        skipContentLength: true,
+      })
+
+      expect(response.status).toBe(400)
+    })
+
+    it("should reject requests with both Transfer-Encoding and Content-Length", async () => {
+      const violations: BodyLimitViolation[] = []
+      const response = await sendRequest(createApp(violations), {
+        body: createStreamBody("Hello World"),
+        headers: { "content-type": "text/plain", "content-length": "11" },
+      })
+
+      expect(response.status).toBe(400)
+      expect(violations[0]?.reason).toBe("conflicting-length")
+    })
+
+    it("should allow matching bodies", async () => {
+      const response = await sendRequest(createApp(), {
+        body: "Hello World",
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(response.status).toBe(200)
+      expect(await response.text()).toBe("Hello World")
+    })
+  })
+
+  describe("Expect Header", () => {
+    it("should reject oversized 100-continue requests before reading the body", async () => {
+      let pulled = false
+      const app = createBodyLimitApp({ maxSize: 10, bodyCheck: true }, (app) =>
+        app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await app.handle(
+        new Request("http://localhost/", {
+          method: "POST",
+          headers: {
+            "content-type": "text/plain",
+            "content-length": "100",
+            expect: "100-continue",
+          },
+          body: new ReadableStream(
+            {
+              pull(controller) {
+                pulled = true
+                controller.close()
+              },
+            },
+            { highWaterMark: 0 }, // Only pull when read
+          ),
+          duplex: "half",
+        }),
+      )
+
+      expect(response.status).toBe(413)
+      expect(pulled).toBe(false)
+    })
+
+    it("should reject 100-continue requests without Content-Length with 417", async () => {
+      const app = createBodyLimitApp({ maxSize: "1k", bodyCheck: true }, (app) =>
+        app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: createStreamBody("Hello World"),
+        headers: { "content-type": "text/plain", expect: "100-continue" },
+      })
+
+      expect(response.status).toBe(417)
+    })
+
+    it("should allow 100-continue requests within the limit", async () => {
+      const app = createBodyLimitApp({ maxSize: "1k" }, (app) =>
+        app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: "Hello World",
+        headers: { "content-type": "text/plain", expect: "100-Continue" },
+      })
+
+      expect(response.status).toBe(200)
+      expect(await response.text()).toBe("Hello World")
+    })
+
+    it("should only reject unsupported expectations when enabled", async () => {
+      const violations: BodyLimitViolation[] = []
+      const strict = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          rejectUnsupportedExpect: true,
+          onExpectationFailed: (ctx, violation) => {
+            violations.push(violation)
+            return ctx.status(417)
+          },
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+      const lenient = createBodyLimitApp({ maxSize: "1k" }, (app) =>
+        app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const request = () => ({
+        body: "Hello World",
+        headers: { "content-type": "text/plain", expect: "200-ok" },
+      })
+      expect((await sendRequest(strict, request())).status).toBe(417)
+      expect(violations[0]).toMatchObject({ reason: "expectation", expect: "200-ok" })
+      expect((await sendRequest(lenient, request())).status).toBe(200)
+    })
+  })
+
+  describe("Violation Info", () => {
+    it("should describe header and stream violations", async () => {
+      const violations: BodyLimitViolation[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: 10,
+          bodyCheck: true,
+          onLimit: (ctx, violation) => {
+            violations.push(violation)
+            return ctx.status(413)
+          },
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      await sendRequest(app, {
+        body: "This is too long",
+        headers: { "content-type": "text/plain" },
+      })
+      await sendRequest(app, {
+        body: createStreamBody("First chunk...", "Second chunk"),
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(violations).toEqual([
+        {
+          reason: "content-length",
+          declaredLength: 16,
+          received: 0,
+          maxSize: 10,
+          contentType: "text/plain",
+          route: "/",
+          multipart: undefined,
+        },
+        {
+          reason: "stream",
+          declaredLength: undefined,
+          received: 14,
+          maxSize: 10,
+          contentType: "text/plain",
+          route: "/",
+          multipart: undefined,
+        },
+      ])
+    })
+
+    it("should respond with problem details when enabled", async () => {
+      const app = createBodyLimitApp({ maxSize: 5, problemDetails: true }, (app) =>
+        app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: "This is too long",
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(response.status).toBe(413)
+      expect(response.headers.get("content-type")).toBe("application/problem+json")
+      expect(await response.json()).toEqual({
+        type: "about:blank",
+        title: "Payload Too Large",
+        status: 413,
+        detail: "Content-Length exceeds the maximum body size",
+        instance: "/",
+        reason: "content-length",
+        declaredLength: 16,
+        received: 0,
+        maxSize: 5,
+        contentType: "text/plain",
+      })
+    })
+
+    it("should respond with problem details per route and rule", async () => {
+      const app = new Elysia()
+        .use(bodyLimit({ maxSize: 5, rules: [{ path: "/r", problemDetails: true }] }))
+        .post("/", ({ body }) => body)
+        .post("/m", ({ body }) => body, { bodyLimit: { problemDetails: true } })
+        .post("/r", ({ body }) => body)
+
+      for (const path of ["/m", "/r"]) {
+        const response = await app.handle(createLengthRequest(16, { path }))
+        expect(response.status).toBe(413)
+        expect(response.headers.get("content-type")).toBe("application/problem+json")
+      }
+      const plain = await app.handle(createLengthRequest(16))
+      expect(plain.status).toBe(413)
+      expect(plain.headers.get("content-type")).not.toBe("application/problem+json")
+    })
+  })
+
+  describe("Content Type Limits", () => {
+    it("should resolve limits by exact type, wildcard and fallback", async () => {
+      const app = createBodyLimitApp(
+        {
+          maxSize: 4,
+          limits: { "application/json": 32, "text/*": 8 },
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const jsonResponse = await sendRequest(app, {
+        body: JSON.stringify({ data: "under 32 bytes" }),
+        headers: { "content-type": "application/json" },
+      })
+      expect(jsonResponse.status).toBe(200)
+
+      const textResponse = await sendRequest(app, {
+        body: "over 8 bytes",
+        headers: { "content-type": "text/plain; charset=utf-8" },
+      })
+      expect(textResponse.status).toBe(413)
+
+      const fallbackResponse = await sendRequest(app, {
+        body: "12345",
+        headers: { "content-type": "application/octet-stream" },
+      })
+      expect(fallbackResponse.status).toBe(413)
+    })
+
+    it("should apply content type limits to streamed bodies", async () => {
+      const app = createBodyLimitApp(
+        { maxSize: "1k", bodyCheck: true, limits: { "text/plain": 8 } },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: createStreamBody("chunk one", "chunk two"),
+        headers: { "content-type": "text/plain" },
+      })
+      expect(response.status).toBe(413)
+    })
+  })
+
+  describe("Allowed Content Types", () => {
+    it("should reject bodies of other types with 415", async () => {
+      const reasons: string[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          allowedContentTypes: ["application/json", "image/*"],
+          bodyCheckBlacklist: ["text/plain"],
+          onUnsupportedMediaType: (ctx, violation) => {
+            reasons.push(violation.reason)
+            return ctx.status(415)
+          },
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const jsonResponse = await sendRequest(app, {
+        body: JSON.stringify({ data: "ok" }),
+        headers: { "content-type": "Application/JSON; charset=utf-8" },
+      })
+      expect(jsonResponse.status).toBe(200)
+
+      const imageResponse = await sendRequest(app, {
+        body: "png",
+        headers: { "content-type": "image/png" },
+      })
+      expect(imageResponse.status).toBe(200)
+
+      // Blacklisted types are still rejected
+      const textResponse = await sendRequest(app, {
+        body: "text",
+        headers: { "content-type": "text/plain" },
+      })
+      expect(textResponse.status).toBe(415)
+      expect(reasons).toEqual(["media-type"])
+    })
+
+    it("should reject bodies without Content-Type", async () => {
+      const app = createBodyLimitApp({ maxSize: "1k", allowedContentTypes: ["*/*"] }, (app) =>
+        app.post("/", () => "ok"),
+      )
+
+      const response = await app.handle(
+        new Request("http://localhost/", {
+          method: "POST",
+          headers: { "content-length": "4" },
+          body: new TextEncoder().encode("body"),
+        }),
+      )
+      expect(response.status).toBe(415)
+
+      const bodyless = await sendRequest(app)
+      expect(bodyless.status).toBe(200)
+    })
+
+    it("should override allowed types per route", async () => {
+      const app = new Elysia()
+        .use(bodyLimit({ maxSize: "1k", allowedContentTypes: ["application/json"] }))
+        .post("/", ({ body }) => body)
+        .post("/upload", ({ body }) => body, {
+          bodyLimit: { maxSize: "1k", allowedContentTypes: ["text/*"] },
+        })
+
+      const globalResponse = await sendRequest(app, {
+        body: "text",
+        headers: { "content-type": "text/plain" },
+      })
+      expect(globalResponse.status).toBe(415)
+
+      const routeResponse = await app.handle(
+        new Request("http://localhost/upload", {
+          method: "POST",
+          headers: { "content-type": "text/plain", "content-length": "4" },
+          body: "text",
+        }),
+      )
+      expect(routeResponse.status).toBe(200)
+    })
+  })
+
+  describe("Multipart Limits", () => {
+    const boundary = "----elysia-body-limit"
+    const headers = { "content-type": `multipart/form-data; boundary=${boundary}` }
+
+    it("should allow multipart bodies within limits", async () => {
+      const app = createBodyLimitApp(
+        { maxSize: "1k", multipart: { maxFileSize: 16, maxFieldSize: 16, maxParts: 2 } },
+        (app) => app.post("/", ({ body }: { body: { name: string } }) => body.name),
+      )
+
+      const response = await sendRequest(app, {
+        headers: { ...headers },
+        body: createMultipartBody(boundary, [
+          { name: "name", value: "elysia" },
+          { name: "avatar", value: "small file", filename: "a.txt" },
+        ]),
+      })
+      expect(response.status).toBe(200)
+      expect(await response.text()).toBe("elysia")
+    })
+
+    it("should report the exceeded limit and field name", async () => {
+      const violations: unknown[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          multipart: { maxFileSize: 8 },
+          onLimit: (ctx, violation) => {
+            violations.push(violation.multipart)
+            return ctx.status(413)
+          },
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        headers: { ...headers },
+        body: createMultipartBody(boundary, [
+          { name: "name", value: "this field is not a file" },
+          { name: "avatar", value: "way over eight bytes", filename: "a.txt" },
+        ]),
+      })
+      expect(response.status).toBe(413)
+      expect(violations).toEqual([{ limit: "maxFileSize", field: "avatar" }])
+    })
+
+    it("should count parts across streamed chunks", async () => {
+      const app = createBodyLimitApp({ maxSize: "1k", multipart: { maxParts: 3 } }, (app) =>
+        app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const body = createMultipartBody(
+        boundary,
+        Array.from({ length: 10 }, (_, i) => ({ name: `field${i}`, value: "x" })),
+      )
+      // Split into tiny chunks so boundaries cross chunk edges
+      const chunks = body.match(/[\s\S]{1,7}/g) ?? []
+
+      const response = await sendRequest(app, {
+        headers: { ...headers },
+        body: createStreamBody(...chunks),
+      })
+      expect(response.status).toBe(413)
+    })
+  })
+
+  describe("JSON Limits", () => {
+    it("should allow JSON bodies within limits", async () => {
+      const app = createBodyLimitApp(
+        { maxSize: "1k", json: { maxDepth: 3, maxKeys: 2, maxArrayLength: 3, maxStringLength: 8 } },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const json = JSON.stringify({ a: [1, { b: 'quote"' }, [2]], c: true })
+      const response = await sendRequest(app, {
+        body: json,
+        headers: { "content-type": "application/json" },
+      })
+      expect(response.status).toBe(200)
+      expect(await response.text()).toBe(json)
+    })
+
+    it("should report the exceeded JSON limit", async () => {
+      const limits: unknown[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1m",
+          json: { maxDepth: 16, maxKeys: 4, maxArrayLength: 4, maxStringLength: 16 },
+          onLimit: (ctx, violation) => {
+            limits.push(violation.json?.limit)
+            return ctx.status(413)
+          },
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const bodies = [
+        "[".repeat(10000) + "]".repeat(10000),
+        JSON.stringify({ a: 1, b: 2, c: 3, d: 4, e: 5 }),
+        JSON.stringify([1, 2, 3, [4], { five: 5 }]),
+        JSON.stringify({ key: "x".repeat(17) }),
+      ]
+      for (const body of bodies) {
+        const response = await sendRequest(app, {
+          body: createStreamBody(...(body.match(/[\s\S]{1,5}/g) ?? [])),
+          headers: { "content-type": "application/json" },
+        })
+        expect(response.status).toBe(413)
+      }
+
+      expect(limits).toEqual(["maxDepth", "maxKeys", "maxArrayLength", "maxStringLength"])
+    })
+  })
+
+  describe("Decompression", () => {
+    function sendEncoded(
+      app: Pick<Elysia, "handle">,
+      encoding: string,
+      body: Uint8Array,
+      contentType: string,
+    ) {
+      return app.handle(
+        new Request("http://localhost/", {
+          method: "POST",
+          headers: {
+            "content-type": contentType,
+            "content-encoding": encoding,
+            "content-length": body.length.toString(),
+          },
+          body,
+        }),
+      )
+    }
+
+    it("should decode gzip and br bodies", async () => {
+      const app = createBodyLimitApp(
+        { maxSize: "1k", decompression: { maxDecodedSize: "1k" } },
+        (app) => app.post("/", ({ body }: { body: { data: string } }) => body.data),
+      )
+
+      const json = JSON.stringify({ data: "compressed" })
+
+      const gzipResponse = await sendEncoded(app, "gzip", gzipSync(json), "application/json")
+      expect(gzipResponse.status).toBe(200)
+      expect(await gzipResponse.text()).toBe("compressed")
+
+      const brResponse = await sendEncoded(app, "br", brotliCompressSync(json), "application/json")
+      expect(brResponse.status).toBe(200)
+      expect(await brResponse.text()).toBe("compressed")
+    })
+
+    it("should reject bodies exceeding maxDecodedSize or maxRatio", async () => {
+      const reasons: string[] = []
+      const onLimit = (ctx: Context, violation: BodyLimitViolation) => {
+        reasons.push(violation.reason)
+        return ctx.status(413)
+      }
+      const bomb = gzipSync("0".repeat(1024 * 1024))
+
+      const sizeApp = createBodyLimitApp(
+        { maxSize: "10k", decompression: { maxDecodedSize: "64k" }, onLimit },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+      const sizeResponse = await sendEncoded(sizeApp, "gzip", bomb, "text/plain")
+      expect(sizeResponse.status).toBe(413)
+
+      const ratioApp = createBodyLimitApp(
+        { maxSize: "10k", decompression: { maxDecodedSize: "10m", maxRatio: 10 }, onLimit },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+      const ratioResponse = await sendEncoded(ratioApp, "gzip", bomb, "text/plain")
+      expect(ratioResponse.status).toBe(413)
+
+      expect(reasons).toEqual(["decoded-size", "compression-ratio"])
+    })
+
+    it("should reject encodings outside the allowlist", async () => {
+      const app = createBodyLimitApp(
+        { maxSize: "1k", decompression: { maxDecodedSize: "1k", encodings: ["gzip"] } },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendEncoded(app, "br", brotliCompressSync("hello"), "text/plain")
+      expect(response.status).toBe(415)
+    })
+  })
+
+  describe("Timeouts", () => {
+    it("should reject stalled bodies after bodyTimeout", async () => {
+      const reasons: string[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          bodyTimeout: 100,
+          onTimeout: (ctx, violation) => {
+            reasons.push(violation.reason)
+            return ctx.status(408)
+          },
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: createTrickleBody({ interval: 10, stall: true }, "first chunk"),
+        headers: { "content-type": "text/plain" },
+      })
+      expect(response.status).toBe(408)
+      expect(reasons).toEqual(["timeout"])
+    })
+
+    it("should reject bodies slower than minBytesPerSecond", async () => {
+      const app = createBodyLimitApp({ maxSize: "1k", minBytesPerSecond: 1024 }, (app) =>
+        app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: createTrickleBody(100, ..."trickle".repeat(3)),
+        headers: { "content-type": "text/plain" },
+      })
+      expect(response.status).toBe(408)
+    })
+
+    it("should allow bodies received in time", async () => {
+      const app = createBodyLimitApp(
+        { maxSize: "1k", bodyTimeout: 1000, minBytesPerSecond: 1 },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: createStreamBody("fast", " body"),
+        headers: { "content-type": "text/plain" },
+      })
+      expect(response.status).toBe(200)
+      expect(await response.text()).toBe("fast body")
+    })
+  })
+
+  describe("Quota", () => {
+    it("should reject clients exceeding the quota with Retry-After", async () => {
+      const app = createBodyLimitApp(
+        { maxSize: "1k", quota: { max: 20, window: 60_000, keyGenerator: () => "client" } },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      for (let i = 0; i < 2; i++) {
+        const response = await sendRequest(app, {
+          body: "ten bytes!",
+          headers: { "content-type": "text/plain" },
+        })
+        expect(response.status).toBe(200)
+      }
+
+      const response = await sendRequest(app, {
+        body: "ten bytes!",
+        headers: { "content-type": "text/plain" },
+      })
+      expect(response.status).toBe(429)
+      expect(Number(response.headers.get("retry-after"))).toBeGreaterThan(0)
+    })
+
+    it("should count streamed bytes per key", async () => {
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          quota: {
+            max: 16,
+            window: 60_000,
+            keyGenerator: (ctx) => ctx.request.headers.get("x-client") ?? "",
+          },
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const first = await sendRequest(app, {
+        body: createStreamBody("0123456789", "0123456789"),
+        headers: { "content-type": "text/plain", "x-client": "a" },
+      })
+      expect(first.status).toBe(429)
+
+      const other = await sendRequest(app, {
+        body: createStreamBody("0123456789"),
+        headers: { "content-type": "text/plain", "x-client": "b" },
+      })
+      expect(other.status).toBe(200)
+    })
+
+    it("should not count requests without a client IP", async () => {
+      const app = createBodyLimitApp({ maxSize: "1k", quota: { max: 5, window: 60_000 } }, (app) =>
+        app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      for (let i = 0; i < 2; i++) {
+        const response = await sendRequest(app, {
+          body: "over five bytes",
+          headers: { "content-type": "text/plain" },
+        })
+        expect(response.status).toBe(200)
+      }
+    })
+
+    it("should support async stores", async () => {
+      const memory = new MemoryQuotaStore()
+      const store: QuotaStore = {
+        increment: async (key, bytes, window) => memory.increment(key, bytes, window),
+      }
+      const app = createBodyLimitApp(
+        { maxSize: "1k", quota: { max: 5, window: 60_000, store, keyGenerator: () => "client" } },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: "over five bytes",
+        headers: { "content-type": "text/plain" },
+      })
+      expect(response.status).toBe(429)
+    })
+
+    it("should stop timing bodies rejected before they are read", async () => {
+      const reasons: string[] = []
+      const store: QuotaStore = {
+        increment: async (key, bytes, window) =>
+          new MemoryQuotaStore().increment(key, bytes, window),
+      }
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          quota: { max: 5, window: 60_000, store, keyGenerator: () => "client" },
+          bodyTimeout: 50,
+          onTimeout: (ctx, violation) => {
+            reasons.push(violation.reason)
+            return ctx.status(408)
+          },
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: "over five bytes",
+        headers: { "content-type": "text/plain" },
+      })
+      expect(response.status).toBe(429)
+
+      await Bun.sleep(150)
+      expect(reasons).toEqual([])
+    })
+  })
+
+  describe("In-Flight Budget", () => {
+    it("should reject bodies while the budget is exhausted", async () => {
+      let open: () => void = () => {}
+      const gate = new Promise<void>((resolve) => {
+        open = resolve
+      })
+      const app = createBodyLimitApp({ maxSize: "1k", maxInFlightBytes: 16 }, (app) =>
+        app.post("/", async ({ body }: { body: unknown }) => {
+          if (body === "hold this body") await gate
+          return body
+        }),
+      )
+
+      const held = sendRequest(app, {
+        body: "hold this body",
+        headers: { "content-type": "text/plain" },
+      })
+      await Bun.sleep(10)
+
+      const rejected = await sendRequest(app, {
+        body: "next body",
+        headers: { "content-type": "text/plain" },
+      })
+      expect(rejected.status).toBe(503)
+
+      open()
+      expect((await held).status).toBe(200)
+
+      // Released once the response is sent
+      await Bun.sleep(10)
+      const accepted = await sendRequest(app, {
+        body: "next body",
+        headers: { "content-type": "text/plain" },
+      })
+      expect(accepted.status).toBe(200)
+    })
+
+    it("should count streamed bodies as they arrive", async () => {
+      const violations: BodyLimitViolation[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          maxInFlightBytes: 8,
+          onInFlightLimit: (ctx, violation) => {
+            violations.push(violation)
+            return ctx.status(503)
+          },
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: createStreamBody("chunk one", "chunk two"),
+        headers: { "content-type": "text/plain" },
+      })
+      expect(response.status).toBe(503)
+      expect(violations[0]).toMatchObject({ reason: "in-flight", received: 9, maxSize: 8 })
+
+      const small = await sendRequest(app, {
+        body: createStreamBody("tiny", "body"),
+        headers: { "content-type": "text/plain" },
+      })
+      expect(small.status).toBe(200)
+      expect(await small.text()).toBe("tinybody")
+    })
+  })
+
+  describe("Metrics", () => {
+    it("should emit accept and reject events", async () => {
+      const events: BodyLimitEvent[] = []
+      const app = createBodyLimitApp(
+        { maxSize: 10, bodyCheck: true, onMetric: (event) => events.push(event) },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      await sendRequest(app, { body: "small", headers: { "content-type": "text/plain" } })
+      await sendRequest(app, {
+        body: createStreamBody("0123456789", "0123456789"),
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(events).toEqual([
+        {
+          type: "accept",
+          reason: undefined,
+          method: "POST",
+          route: "/",
+          contentType: "text/plain",
+          size: 5,
+          maxSize: 10,
+        },
+        {
+          type: "reject",
+          reason: "stream",
+          method: "POST",
+          route: "/",
+          contentType: "text/plain",
+          size: 20,
+          maxSize: 10,
+        },
+      ])
+    })
+
+    it("should emit stream-aborted when the client aborts", async () => {
+      const events: BodyLimitEvent[] = []
+      const app = createBodyLimitApp(
+        { maxSize: "1k", bodyCheck: true, onMetric: (event) => events.push(event) },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const controller = new AbortController()
+      const response = app.handle(
+        new Request("http://localhost/", {
+          method: "POST",
+          headers: { "content-type": "text/plain", "transfer-encoding": "chunked" },
+          body: createTrickleBody({ interval: 10, stall: true }, "hello"),
+          signal: controller.signal,
+          duplex: "half",
+        }),
+      )
+      await Bun.sleep(50)
+      controller.abort()
+      await Promise.race([response, Bun.sleep(50)]).catch(() => {})
+
+      expect(events.map((event) => event.type)).toEqual(["stream-aborted"])
+      expect(events[0]?.size).toBe(5)
+    })
+
+    it("should expose a Prometheus endpoint", async () => {
+      const app = createBodyLimitApp({ maxSize: 10, metrics: true }, (app) =>
+        app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      await sendRequest(app, { body: "small", headers: { "content-type": "text/plain" } })
+      await sendRequest(app, { body: "way too large", headers: { "content-type": "text/plain" } })
+
+      const response = await app.handle(new Request("http://localhost/metrics"))
+      const text = await response.text()
+
+      expect(response.headers.get("content-type")).toStartWith("text/plain")
+      expect(text).toContain(
+        'body_limit_events_total{method="POST",route="/",type="accept",reason=""} 1',
+      )
+      expect(text).toContain(
+        'body_limit_events_total{method="POST",route="/",type="reject",reason="content-length"} 1',
+      )
+      expect(text).toContain(
+        'body_limit_body_size_bytes_bucket{method="POST",route="/",le="1024"} 1',
+      )
+      expect(text).toContain('body_limit_body_size_bytes_sum{method="POST",route="/"} 5')
+    })
+  })
+
+  describe("Progress", () => {
+    it("should report progress of streamed bodies", async () => {
+      const progress: BodyProgress[] = []
+      let handled: BodyProgress | undefined
+      const app = createBodyLimitApp(
+        { maxSize: "1k", onProgress: (_ctx, current) => progress.push(current) },
+        (app) =>
+          app.post("/", (ctx: Context) => {
+            handled = getBodyProgress(ctx)
+            return ctx.body
+          }),
+      )
+
+      const response = await sendRequest(app, {
+        body: createStreamBody("chunk one", "chunk two"),
+        headers: { "content-type": "text/plain" },
+      })
+      expect(await response.text()).toBe("chunk onechunk two")
+      expect(progress).toEqual([
+        { received: 9, total: undefined, limit: 1024 },
+        { received: 18, total: undefined, limit: 1024 },
+        { received: 18, total: undefined, limit: 1024 },
+      ])
+      expect(handled).toEqual({ received: 18, total: undefined, limit: 1024 })
+
+      // Content-Length bodies are streamed as well
+      progress.length = 0
+      await sendRequest(app, { body: "Hello World", headers: { "content-type": "text/plain" } })
+      expect(progress.at(-1)).toEqual({ received: 11, total: 11, limit: 1024 })
+    })
+
+    it("should throttle progress by bytes", async () => {
+      const received: number[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          onProgress: (_ctx, progress) => received.push(progress.received),
+          progressThrottle: { bytes: 10 },
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      await sendRequest(app, {
+        body: createStreamBody("12345", "12345", "12345", "12"),
+        headers: { "content-type": "text/plain" },
+      })
+      expect(received).toEqual([10, 17])
+    })
+  })
+
+  describe("Report Mode", () => {
+    it("should report Content-Length violations without rejecting", async () => {
+      const reports: BodyLimitViolation[] = []
+      const app = createBodyLimitApp(
+        { maxSize: 5, mode: "report", onReport: (_, violation) => reports.push(violation) },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: "This is too long",
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(response.status).toBe(200)
+      expect(await response.text()).toBe("This is too long")
+      expect(response.headers.get("x-body-limit-would-reject")).toBe("content-length")
+      expect(reports.map((violation) => violation.reason)).toEqual(["content-length"])
+    })
+
+    it("should report streamed violations once", async () => {
+      const reports: BodyLimitViolation[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: 10,
+          bodyCheck: true,
+          mode: "report",
+          onReport: (_, violation) => reports.push(violation),
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: createStreamBody("First chunk...", "Second chunk is way too big!"),
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get("x-body-limit-would-reject")).toBe("stream")
+      expect(reports).toHaveLength(1)
+      expect(reports[0]?.received).toBe(14)
+    })
+
+    it("should report header and body violations once per request", async () => {
+      const reports: BodyLimitViolation[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: 5,
+          maxHeaderCount: 1,
+          mode: "report",
+          onReport: (_, violation) => reports.push(violation),
+        },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: "This is too long",
+        headers: { "content-type": "text/plain", "x-extra": "header" },
+      })
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get("x-body-limit-would-reject")).toBe("headers")
+      expect(reports.map((violation) => violation.reason)).toEqual(["headers"])
+    })
+
+    it("should not set the header for requests under the limit", async () => {
+      const app = createBodyLimitApp({ maxSize: "1k", mode: "report" }, (app) =>
+        app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: "Hello World",
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(response.status).toBe(200)
+      expect(response.headers.has("x-body-limit-would-reject")).toBe(false)
+    })
+  })
+
+  describe("Header Limits", () => {
+    it("should reject too many headers on bodyless requests", async () => {
+      const violations: BodyLimitViolation[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          maxHeaderCount: 3,
+          onHeaderLimit: (ctx, violation) => {
+            violations.push(violation)
+            return ctx.status(431)
+          },
+        },
+        (app) => app.get("/", () => "ok"),
+      )
+
+      const headers = { "x-a": "1", "x-b": "2", "x-c": "3", "x-d": "4" }
+      const response = await sendRequest(app, { method: "GET", headers })
+
+      expect(response.status).toBe(431)
+      expect(violations[0]?.reason).toBe("headers")
+      expect(violations[0]?.headers).toEqual({ limit: "maxHeaderCount" })
+      expect(violations[0]?.received).toBe(4)
+    })
+
+    it("should reject a single oversized header before the body", async () => {
+      let parsed = false
+      const app = createBodyLimitApp(
+        { maxSize: "1k", maxSingleHeaderSize: 64, problemDetails: true },
+        (app) =>
+          app.post("/", ({ body }: { body: unknown }) => {
+            parsed = true
+            return body
+          }),
+      )
+
+      const response = await sendRequest(app, {
+        body: "Hello World",
+        headers: { "content-type": "text/plain", cookie: `session=${"a".repeat(100)}` },
+      })
+
+      expect(response.status).toBe(431)
+      expect(await response.json()).toMatchObject({
+        status: 431,
+        reason: "headers",
+        headers: { limit: "maxSingleHeaderSize", header: "cookie" },
+      })
+      expect(parsed).toBe(false)
+    })
+
+    it("should reject long URLs with 414", async () => {
+      const app = createBodyLimitApp({ maxSize: "1k", maxUrlLength: 32 }, (app) =>
+        app.get("/search", () => "ok"),
+      )
+
+      const short = await app.handle(new Request("http://localhost/search?q=short"))
+      expect(short.status).toBe(200)
+
+      const long = await app.handle(new Request(`http://localhost/search?q=${"a".repeat(32)}`))
+      expect(long.status).toBe(414)
+    })
+
+    it("should allow requests within the header limits", async () => {
+      const app = createBodyLimitApp(
+        { maxSize: "1k", maxHeaderCount: 10, maxHeaderSize: "1k", maxUrlLength: 100 },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: "Hello World",
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(response.status).toBe(200)
+      expect(await response.text()).toBe("Hello World")
+    })
+  })
+
+  describe("Bodyless Methods", () => {
+    it("should reject bodies of GET, HEAD, OPTIONS and TRACE by default", async () => {
+      const app = new Elysia()
+        .use(bodyLimit({ maxSize: "1k" }))
+        .get("/", () => "ok")
+        .options("/", () => "ok")
+
+      const getResponse = await sendRequest(app, {
+        method: "GET",
+        body: "body",
+        headers: { "content-type": "text/plain" },
+      })
+      expect(getResponse.status).toBe(400)
+
+      const chunked = await sendRequest(app, {
+        method: "OPTIONS",
+        headers: { "transfer-encoding": "chunked" },
+      })
+      expect(chunked.status).toBe(400)
+
+      const declared = await sendRequest(app, {
+        method: "GET",
+        headers: { "content-length": "5" },
+      })
+      expect(declared.status).toBe(400)
+
+      const empty = await sendRequest(app, {
+        method: "GET",
+        headers: { "content-length": "0" },
+      })
+      expect(empty.status).toBe(200)
+      expect((await sendRequest(app, { method: "GET" })).status).toBe(200)
+    })
+
+    it("should use forbidBodyFor and onForbiddenBody", async () => {
+      const violations: BodyLimitViolation[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          forbidBodyFor: ["delete"],
+          onForbiddenBody: (ctx, violation) => {
+            violations.push(violation)
+            return ctx.status(422)
+          },
+        },
+        (app) => app.get("/", () => "ok").delete("/", () => "ok"),
+      )
+
+      const deleteResponse = await sendRequest(app, {
+        method: "DELETE",
+        body: "body",
+        headers: { "content-type": "text/plain" },
+      })
+      expect(deleteResponse.status).toBe(422)
+      expect(violations[0]?.reason).toBe("forbidden-body")
+
+      const getResponse = await sendRequest(app, {
+        method: "GET",
+        body: "body",
+        headers: { "content-type": "text/plain" },
+      })
+      expect(getResponse.status).toBe(200)
+    })
+  })
+
+  describe("Response Limits", () => {
+    it("should reject oversized JSON responses", async () => {
+      const violations: BodyLimitViolation[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          maxResponseSize: 16,
+          onResponseLimit: (ctx, violation) => {
+            violations.push(violation)
+            return ctx.status(500)
+          },
+        },
+        (app) =>
+          app
+            .get("/", () => ({ rows: Array.from({ length: 10 }, (_, i) => i) }))
+            .get("/small", () => ({ ok: true })),
+      )
+
+      const response = await app.handle(new Request("http://localhost/"))
+      expect(response.status).toBe(500)
+      expect(violations[0]).toMatchObject({ reason: "response-length", received: 30, maxSize: 16 })
+
+      const small = await app.handle(new Request("http://localhost/small"))
+      expect(small.status).toBe(200)
+      expect(await small.json()).toEqual({ ok: true })
+    })
+
+    it("should check Content-Length of returned responses", async () => {
+      const app = createBodyLimitApp(
+        { maxSize: "1k", maxResponseSize: 4, onResponseLimit: (ctx) => ctx.status(500) },
+        (app) =>
+          app.get("/", () => new Response("Hello World", { headers: { "content-length": "11" } })),
+      )
+
+      const response = await app.handle(new Request("http://localhost/"))
+      expect(response.status).toBe(500)
+    })
+
+    it("should abort streamed responses exceeding the limit", async () => {
+      const violations: BodyLimitViolation[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          maxResponseSize: 12,
+          onResponseLimit: (ctx, violation) => {
+            violations.push(violation)
+            return ctx.status(500)
+          },
+        },
+        (app) => app.get("/", () => new Response(createStreamBody("First chunk", "Second chunk"))),
+      )
+
+      const response = await app.handle(new Request("http://localhost/"))
+      expect(response.status).toBe(200)
+      await expect(response.text()).rejects.toBeDefined()
+      expect(violations[0]).toMatchObject({ reason: "response-stream", received: 23 })
+    })
+
+    it("should count values yielded by generators", async () => {
+      const violations: BodyLimitViolation[] = []
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          maxResponseSize: 10,
+          onResponseLimit: (ctx, violation) => {
+            violations.push(violation)
+            return ctx.status(500)
+          },
+        },
+        (app) =>
+          app
+            .get("/", function* () {
+              yield "First chunk"
+              yield "Second chunk"
+            })
+            .get("/async", async function* () {
+              yield "Hello"
+              yield "Second chunk"
+              yield "Third chunk"
+            })
+            .get("/small", async function* () {
+              yield "Hello"
+              yield "World"
+            }),
+      )
+
+      const response = await app.handle(new Request("http://localhost/"))
+      expect(response.status).toBe(500)
+      expect(violations[0]).toMatchObject({ reason: "response-stream", received: 11 })
+
+      const truncated = await app.handle(new Request("http://localhost/async"))
+      expect(await truncated.text()).toBe("Hello")
+      expect(violations[1]).toMatchObject({ reason: "response-stream", received: 17 })
+
+      const small = await app.handle(new Request("http://localhost/small"))
+      expect(await small.text()).toBe("HelloWorld")
+      expect(violations).toHaveLength(2)
+    })
+
+    it("should measure values wrapped in status", async () => {
+      const app = createBodyLimitApp(
+        { maxSize: "1k", maxResponseSize: 16, onResponseLimit: (ctx) => ctx.status(500) },
+        (app) =>
+          app
+            .get("/", () => status(200, { rows: Array.from({ length: 10 }, (_, i) => i) }))
+            .get("/small", () => status(201, { ok: true }))
+            .get("/stream", () =>
+              status(202, new Response(createStreamBody("First chunk", "Second chunk"))),
+            ),
+      )
+
+      expect((await app.handle(new Request("http://localhost/"))).status).toBe(500)
+      expect((await app.handle(new Request("http://localhost/small"))).status).toBe(201)
+
+      const stream = await app.handle(new Request("http://localhost/stream"))
+      expect(stream.status).toBe(202)
+      await expect(stream.text()).rejects.toBeDefined()
+    })
+
+    it("should override maxResponseSize per route", async () => {
+      const app = createBodyLimitApp(
+        { maxSize: "1k", maxResponseSize: 4, onResponseLimit: (ctx) => ctx.status(500) },
+        (app) =>
+          app
+            .get("/", () => "Hello World")
+            .get("/export", () => "Hello World", { bodyLimit: { maxResponseSize: "1k" } }),
+      )
+
+      expect((await app.handle(new Request("http://localhost/"))).status).toBe(500)
+      expect((await app.handle(new Request("http://localhost/export"))).status).toBe(200)
+    })
+  })
+
+  describe("WebSocket Limits", () => {
+    interface WebSocketApp {
+      listen(port: number): WebSocketApp
+      server: { port?: number } | null
+      stop(closeActiveConnections?: boolean): Promise<unknown>
+    }
+
+    // Send messages in order and resolve with the echoed messages and the close code
+    async function exchange(app: WebSocketApp, messages: string[]) {
+      const server = app.listen(0)
+      const socket = new WebSocket(`ws://localhost:${server.server?.port}/ws`)
+      const received: string[] = []
+      try {
+        return await new Promise<{ received: string[]; code?: number }>((resolve) => {
+          socket.onopen = () => {
+            for (const message of messages) socket.send(message)
+          }
+          socket.onmessage = (event) => {
+            received.push(String(event.data))
+            if (received.length === messages.length) resolve({ received })
+          }
+          socket.onclose = (event) => resolve({ received, code: event.code })
+        })
+      } finally {
+        socket.close()
+        await server.stop(true)
+      }
+    }
+
+    it("should close the connection on oversized messages", async () => {
+      const app = new Elysia().ws("/ws", {
+        open: wsLimit({ maxMessageSize: 8 }),
+        message(ws, message) {
+          ws.send(String(message))
+        },
+      })
+
+      const { received, code } = await exchange(app, ["small", "this message is too big"])
+
+      expect(received).toEqual(["small"])
+      expect(code).toBe(1009)
+    })
+
+    it("should call onLimit for rate and total bytes", async () => {
+      const violations: WebSocketLimitViolation[] = []
+      const app = new Elysia().ws("/ws", {
+        open: wsLimit({
+          messageRate: { max: 2, window: 60_000 },
+          maxTotalBytes: 9,
+          onLimit: (ws, violation) => {
+            violations.push(violation)
+            ws.send("dropped")
+          },
+        }),
+        message(ws, message) {
+          ws.send(String(message))
+        },
+      })
+
+      const { received } = await exchange(app, ["1234", "5678", "9", "a"])
+
+      expect(received).toEqual(["1234", "5678", "dropped", "dropped"])
+      expect(violations).toEqual([
+        { reason: "message-rate", received: 3, limit: 2 },
+        { reason: "total-bytes", received: 10, limit: 9 },
+      ])
+    })
+
+    it("should warn once without the message handler of the Bun adapter", () => {
+      const warn = spyOn(console, "warn").mockImplementation(() => {})
+      const limitMessages = wsLimit({ maxMessageSize: 8 })
+      const ws = { raw: { data: {} } } as Parameters<typeof limitMessages>[0]
+
+      limitMessages(ws)
+      limitMessages(ws)
+
+      expect(warn).toHaveBeenCalledTimes(1)
+      warn.mockRestore()
+    })
+
+    it("should compose with the open handler of the route", async () => {
+      const limitMessages = wsLimit({ maxMessageSize: 8 })
+      const app = new Elysia().ws("/ws", {
+        open(ws) {
+          limitMessages(ws)
+          ws.send("welcome")
+        },
+        message(ws, message) {
+          ws.send(String(message))
+        },
+      })
+
+      const { received, code } = await exchange(app, ["small", "this message is too big", "last"])
+
+      expect(received).toEqual(["welcome", "small"])
+      expect(code).toBe(1009)
+    })
+  })
+
+  describe("Spill To Disk", () => {
+    it("should pass large bodies as a file and remove it after the response", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "body-limit-"))
+      let spilled: unknown
+      const app = createBodyLimitApp(
+        { maxSize: "1k", spill: { threshold: 10, directory } },
+        (app) =>
+          app.post("/", async ({ body }: { body: Blob & { name?: string } }) => {
+            spilled = body
+            expect(body.name?.startsWith(directory)).toBe(true)
+            expect((await stat(body.name as string)).mode & 0o777).toBe(0o600)
+            expect(await readdir(directory)).toHaveLength(1)
+            return body.text()
+          }),
+      )
+
+      const response = await sendRequest(app, {
+        body: "This body is over the threshold",
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(response.status).toBe(200)
+      expect(await response.text()).toBe("This body is over the threshold")
+      expect(spilled).toBeInstanceOf(Blob)
+      await Bun.sleep(20)
+      expect(await readdir(directory)).toHaveLength(0)
+    })
+
+    it("should spill into a private directory by default", async () => {
+      let spilled: string | undefined
+      const app = createBodyLimitApp({ maxSize: "1k", spill: { threshold: 10 } }, (app) =>
+        app.post("/", async ({ body }: { body: Blob & { name?: string } }) => {
+          spilled = body.name
+          expect((await stat(dirname(spilled as string))).mode & 0o777).toBe(0o700)
+          return body.text()
+        }),
+      )
+
+      const response = await sendRequest(app, {
+        body: "This body is over the threshold",
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(response.status).toBe(200)
+      expect(spilled?.startsWith(tmpdir())).toBe(true)
+    })
+
+    it("should parse bodies under the threshold as usual", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "body-limit-"))
+      const app = createBodyLimitApp(
+        { maxSize: "1k", bodyCheck: true, spill: { threshold: "1k", directory } },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: createStreamBody('{"hello":', '"world"}'),
+        headers: { "content-type": "application/json" },
+      })
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ hello: "world" })
+      expect(await readdir(directory)).toHaveLength(0)
+    })
+
+    it("should remove the file when the limit is exceeded partway", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "body-limit-"))
+      const app = createBodyLimitApp(
+        { maxSize: 20, bodyCheck: true, spill: { threshold: 10, directory } },
+        (app) => app.post("/", ({ body }: { body: unknown }) => body),
+      )
+
+      const response = await sendRequest(app, {
+        body: createStreamBody("0123456789ab", "0123456789ab"),
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(response.status).toBe(413)
+      expect(await readdir(directory)).toHaveLength(0)
+    })
+  })
+
+  describe.each([
+    ["bun", BunAdapter],
+    ["web-standard", WebStandardAdapter],
+  ])("Adapter: %s", (name, adapter) => {
+    const trusted = name === "bun"
+    const createApp = (options: ElysiaBodyLimitOptions) =>
+      new Elysia({ adapter })
+        .use(bodyLimit(options))
+        .post("/", ({ body }: { body: unknown }) => body)
+
+    it("should reject Content-Length over the limit", async () => {
+      const response = await sendRequest(createApp({ maxSize: 5 }), {
+        body: "This is too long",
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(response.status).toBe(413)
+    })
+
+    it("should allow bodies within the limit", async () => {
+      const response = await sendRequest(createApp({ maxSize: "1k" }), {
+        body: "Hello World",
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(response.status).toBe(200)
+      expect(await response.text()).toBe("Hello World")
+    })
+
+    it(`should ${trusted ? "trust" : "count"} bodies longer than Content-Length`, async () => {
+      const response = await sendRequest(createApp({ maxSize: 8 }), {
+        body: "Hello World",
+        headers: { "content-type": "text/plain", "content-length": "5" },
+        skipContentLength: true,
+      })
+
+      expect(response.status).toBe(trusted ? 200 : 413)
+    })
+
+    it(`should ${trusted ? "skip" : "count"} chunked bodies without bodyCheck`, async () => {
+      const response = await sendRequest(createApp({ maxSize: 8 }), {
+        body: createStreamBody("Hello", " World"),
+        headers: { "content-type": "text/plain" },
+      })
+
+      expect(response.status).toBe(trusted ? 200 : 413)
+    })
+
+    it(`should ${trusted ? "" : "not "}validate against the adapter body limit`, () => {
+      const create = () => createApp({ maxSize: "1024m" })
+      if (trusted) expect(create).toThrow()
+      else expect(create).not.toThrow()
+    })
+  })
+
+  describe("OpenAPI Detail", () => {
+    const getDetail = (app: { routes: Elysia["routes"] }, path: string) =>
+      app.routes.find((route) => route.path === path)?.hooks.detail as Record<string, unknown>
+
+    it("should document the global limits", () => {
+      const app = new Elysia()
+        .use(bodyLimit({ maxSize: "1k", limits: { "application/json": 512 } }))
+        .post("/", ({ body }) => body)
+
+      expect(getDetail(app, "/")).toEqual({
+        responses: { 413: { description: "Payload Too Large" } },
+        "x-max-body-size": 1024,
+        "x-max-body-size-by-content-type": { "application/json": 512 },
+      })
+    })
+
+    it("should document enabled checks", () => {
+      const app = new Elysia()
+        .use(bodyLimit({ maxSize: "1k", strictContentLength: true, bodyTimeout: 1000 }))
+        .post("/", ({ body }) => body)
+
+      expect(Object.keys(getDetail(app, "/").responses as object).sort()).toEqual([
+        "408",
+        "411",
+        "413",
+      ])
+    })
+
+    it("should document route overrides", () => {
+      const app = new Elysia()
+        .use(bodyLimit({ maxSize: "1k" }))
+        .post("/", ({ body }) => body)
+        .post("/upload", ({ body }) => body, { bodyLimit: "2k", detail: { summary: "Upload" } })
+
+      expect(getDetail(app, "/")["x-max-body-size"]).toBe(1024)
+      expect(getDetail(app, "/upload")).toMatchObject({
+        summary: "Upload",
+        "x-max-body-size": 2048,
+      })
+    })
+
+    it("should keep route details to their own route", () => {
+      const app = new Elysia()
+        .use(bodyLimit({ maxSize: "1k" }))
+        .post("/a", ({ body }) => body, {
+          detail: { responses: { 200: { description: "Created" } } },
+        })
+        .post("/b", ({ body }) => body)
+        .use(new Elysia().put("/c", ({ body }) => body))
+
+      expect(Object.keys(getDetail(app, "/a").responses as object).sort()).toEqual(["200", "413"])
+      expect(Object.keys(getDetail(app, "/b").responses as object)).toEqual(["413"])
+      expect(Object.keys(getDetail(app, "/c").responses as object)).toEqual(["413"])
+    })
+
+    it("should document the limits of matching rules", () => {
+      const app = new Elysia()
+        .use(bodyLimit({ maxSize: 10, rules: [{ path: "/api/upload/*", maxSize: "1m" }] }))
+        .post("/api/upload/:name", ({ body }) => body)
+        .group("/api", (app) => app.post("/upload/:id/parts", ({ body }) => body))
+        .post("/api/notes", ({ body }) => body)
+
+      expect(getDetail(app, "/api/upload/:name")["x-max-body-size"]).toBe(1024 * 1024)
+      expect(getDetail(app, "/api/upload/:id/parts")["x-max-body-size"]).toBe(1024 * 1024)
+      expect(getDetail(app, "/api/notes")["x-max-body-size"]).toBe(10)
+    })
+
+    it("should skip bodyless methods", () => {
+      const app = new Elysia()
+        .use(bodyLimit({ maxSize: "1k" }))
+        .get("/", () => "ok")
+        .head("/head", () => "ok")
+
+      expect(getDetail(app, "/")).toBeUndefined()
+      expect(getDetail(app, "/head")).toBeUndefined()
+    })
+
+    it("should skip resolvers and report mode", () => {
+      const app = new Elysia()
+        .use(bodyLimit({ maxSize: () => "1k", mode: "report" }))
+        .post("/", ({ body }) => body)
+
+      expect(getDetail(app, "/")).toEqual({ responses: {} })
+    })
+  })
+
+  describe("Rules", () => {
+    const post = (app: Pick<Elysia, "handle">, path: string, body: string, method = "POST") =>
+      app.handle(
+        new Request(`http://localhost${path}`, {
+          method,
+          headers: { "content-type": "text/plain", "content-length": `${body.length}` },
+          body,
+        }),
+      )
+
+    it("should apply the first matching rule by method and path", async () => {
+      const app = createBodyLimitApp(
+        {
+          maxSize: 4,
+          rules: [
+            { method: "POST", path: "/api/upload/*", maxSize: "1k" },
+            { path: /^\/files\/\d+$/, maxSize: 8 },
+            { method: ["put", "patch"], maxSize: 16 },
+            { path: "/api/*", maxSize: 2 },
+          ],
+        },
+        (app) =>
+          app
+            .post("/api/upload/:name", ({ body }: { body: unknown }) => body)
+            .post("/api/notes", ({ body }: { body: unknown }) => body)
+            .put("/api/notes", ({ body }: { body: unknown }) => body)
+            .post("/files/:id", ({ body }: { body: unknown }) => body),
+      )
+
+      expect((await post(app, "/api/upload/a.txt", "long upload body")).status).toBe(200)
+      expect((await post(app, "/files/42", "8 bytes!")).status).toBe(200)
+      expect((await post(app, "/files/42", "9 bytes!!")).status).toBe(413)
+      expect((await post(app, "/api/notes", "long note body", "PUT")).status).toBe(200)
+      expect((await post(app, "/api/notes", "abc")).status).toBe(413)
+    })
+
+    it("should match stateful regex rules on every request", async () => {
+      const app = createBodyLimitApp(
+        { maxSize: "1k", rules: [{ path: /^\/up/g, maxSize: 3 }] },
+        (app) => app.post("/upload", ({ body }: { body: unknown }) => body),
+      )
+
+      const statuses: number[] = []
+      for (let i = 0; i < 3; i++) statuses.push((await post(app, "/upload", "too long")).status)
+      expect(statuses).toEqual([413, 413, 413])
+    })
+
+    it("should use the rule's own options and handlers", async () => {
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          rules: [
+            {
+              method: "DELETE",
+              path: "*",
+              strictContentLength: true,
+              onLengthRequired: (ctx) => ctx.status(418),
+            },
+          ],
+        },
+        (app) => app.delete("/", () => "ok").post("/", () => "ok"),
+      )
+
+      const deleteResponse = await sendRequest(app, {
+        method: "DELETE",
+        body: createStreamBody("some body"),
+        skipContentLength: true,
+      })
+      expect(deleteResponse.status).toBe(418)
+
+      const postResponse = await sendRequest(app, {
+        body: createStreamBody("some body"),
+        skipContentLength: true,
+      })
+      expect(postResponse.status).toBe(200)
+    })
+
+    it("should be ignored by routes with route options", async () => {
+      const app = createBodyLimitApp({ maxSize: "1k", rules: [{ maxSize: 2 }] }, (app) =>
+        app.post("/", ({ body }: { body: unknown }) => body, { bodyLimit: "1k" }),
+      )
+
+      expect((await post(app, "/", "route body")).status).toBe(200)
+    })
+  })
+
+  describe("Testing Utilities", () => {
+    it("should assert limits across routes and body kinds", async () => {
+      const app = new Elysia()
+        .use(bodyLimit({ maxSize: "1k", bodyCheck: true }))
+        .post("/", () => "ok")
+        .post("/upload", () => "ok", { bodyLimit: { maxSize: "4k", bodyCheck: true } })
+
+      await assertBodyLimit(app, { maxSize: "1k" })
+      await assertBodyLimit(app, {
+        path: "/upload",
+        maxSize: "4k",
+        kinds: ["content-length", "chunked"],
+        chunkSize: 1000,
+      })
+      await expect(assertBodyLimit(app, { maxSize: "2k" })).rejects.toThrow(
+        "Expected POST / (Content-Length: 2048) to be accepted, got 413",
+      )
+    })
+
+    it("should build missing, mismatched and slow requests", async () => {
+      const app = createBodyLimitApp(
+        {
+          maxSize: "1k",
+          strictContentLength: true,
+          verifyContentLength: true,
+          bodyTimeout: 50,
+        },
+        (app) => app.post("/", () => "ok"),
+      )
+
+      await expectRejected(app, createMissingLengthRequest(10), 411)
+      await expectRejected(app, createMismatchedLengthRequest(10, 5), 400)
+      await expectRejected(app, createTrickleRequest(10, 40, { chunkSize: 2 }), 408)
+      await expectAccepted(app, createLengthRequest(10, { headers: { "x-test": "1" } }))
+    })
+  })
+
+  describe("Route Options", () => {
+    it("should override maxSize per route", async () => {
+      const app = createBodyLimitApp({ maxSize: 5 }, (app) =>
+        app
+          .post("/", ({ body }: { body: unknown }) => body)
+          .post("/upload", ({ body }: { body: unknown }) => body, { bodyLimit: "1k" }),
+      )
+
+      const globalResponse = await sendRequest(app, {
+        body: "This is too long",
+        headers: { "content-type": "text/plain" },
+      })
+      expect(globalResponse.status).toBe(413)
+
+      const routeResponse = await app.handle(
+        new Request("http://localhost/upload", {
+          method: "POST",
+          headers: { "content-type": "text/plain", "content-length": "16" },
+          body: "This is too long",
+        }),
+      )
+      expect(routeResponse.status).toBe(200)
+    })
+
+    it("should tighten limits per route with merged options", async () => {
+      const app = new Elysia().use(bodyLimit({ maxSize: "1k" })).post("/tiny", ({ body }) => body, {
+        bodyLimit: { maxSize: 4, bodyCheck: true, onLimit: (ctx) => ctx.status(418) },
+      })
+
+      const response = await app.handle(
+        new Request("http://localhost/tiny", {
+          method: "POST",
+          headers: { "content-type": "text/plain", "transfer-encoding": "chunked" },
+          body: createStreamBody("way", "too", "long"),
+          duplex: "half",
+        }),
+      )
+      expect(response.status).toBe(418)
+    })
+
+    it("should validate route limits against Bun maxRequestBodySize", () => {
+      expect(() =>
+        new Elysia({ serve: { maxRequestBodySize: 1024 } })
+          .use(bodyLimit({ maxSize: 512 }))
+          .post("/", () => "ok", { bodyLimit: "2k" }),
+      ).toThrow()
+    })
+
+    it("should reject plugin-wide options on routes", () => {
+      expect(() =>
+        new Elysia()
+          .use(bodyLimit({ maxSize: "1k" }))
+          // @ts-expect-error metrics are plugin-wide
+          .post("/", () => "ok", { bodyLimit: { metrics: true } }),
+      ).toThrow("Unknown bodyLimit route options: metrics")
+    })
+
+    it("should reject unknown route options on registration", () => {
+      expect(() =>
+        new Elysia()
+          .use(bodyLimit({ maxSize: "1k" }))
+          .post("/", () => "ok", { bodyLimit: { maxSize: "1k", strictContentLenght: true } }),
+      ).toThrow("Unknown bodyLimit route options: strictContentLenght")
+    })
+
+    it("should type check route options", () => {
+      const app = new Elysia().use(bodyLimit({ maxSize: "1k" }))
+      // @ts-expect-error misspelled macro
+      app.post("/a", () => "ok", { bodyLimt: "1k" })
+      // @ts-expect-error wrong option type
+      app.post("/b", () => "ok", { bodyLimit: { strictContentLength: "yes" } })
+
+      expect(app.routes).toHaveLength(2)
+    })
+  })
 })